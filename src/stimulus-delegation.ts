@@ -1,80 +1,1557 @@
-import { Controller } from '@hotwired/stimulus'
+import { Controller, defaultSchema } from '@hotwired/stimulus'
 
-export type DelegationHandler = (this: Controller, event: Event, target: Element) => void
+/** Params read from the `data-<identifier>-<name>-param` attributes of the matched target, like action params */
+export type DelegationParams = Record<string, unknown>
 
-export interface DelegationController extends Controller {
-  delegatedEvents: Map<string, EventListener>
-  delegate: (eventType: string, selector: string, handler: DelegationHandler) => this
-  undelegate: (eventType: string, selector: string) => this
-  undelegateAll: () => this
+export type DelegationHandler<E extends Event = Event, T extends Element = Element, C = Controller> = (
+  this: C,
+  event: E & { params: DelegationParams },
+  target: T,
+) => void
+
+/** Event type of an event descriptor, e.g. `KeyboardEvent` for `keydown.enter` */
+export type DelegatedEvent<K extends string> = K extends `${infer Type}.${string}` ? EventOf<Type> : EventOf<K>
+
+/**
+ * Element type matched by a compound selector starting with a tag name, e.g. `HTMLInputElement` for
+ * `input[type=text]`. Selectors with combinators or lists match other elements, typed `Element`.
+ */
+export type DelegatedElement<S extends string> = S extends `${string}${Combinator}${string}`
+  ? Element
+  : TagName<S> extends keyof HTMLElementTagNameMap
+    ? HTMLElementTagNameMap[TagName<S>]
+    : TagName<S> extends keyof SVGElementTagNameMap
+      ? SVGElementTagNameMap[TagName<S>]
+      : Element
+
+type EventOf<K extends string> = K extends GestureEventType
+  ? GestureEvent
+  : K extends keyof HTMLElementEventMap
+    ? HTMLElementEventMap[K]
+    : Event
+
+type Combinator = ' ' | '>' | '+' | '~' | ','
+
+type TagName<S extends string> = Before<Before<Before<Before<S, '['>, '.'>, '#'>, ':'>
+
+type Before<S extends string, C extends string> = S extends `${infer Prefix}${C}${string}` ? Prefix : S
+
+/** Virtual event types recognized from the pointer events of matched targets */
+export type GestureEventType = 'longpress' | 'swipeleft' | 'swiperight' | 'tap' | 'doubletap'
+
+export interface GestureDetail {
+  /** Pointer event completing the gesture (the latest one for a `longpress`) */
+  pointerEvent: PointerEvent
+  /** Horizontal distance travelled by the pointer since it was pressed, in pixels */
+  deltaX: number
+  /** Vertical distance travelled by the pointer since it was pressed, in pixels */
+  deltaY: number
+  /** Milliseconds elapsed since the pointer was pressed */
+  duration: number
+}
+
+export type GestureEvent = CustomEvent<GestureDetail>
+
+export interface GestureOptions {
+  /** Milliseconds the pointer must stay pressed for a `longpress` (500), and the maximum duration of a tap */
+  longPressDelay?: number
+  /** Pixels the pointer can move during a tap or a `longpress` (10) */
+  tolerance?: number
+  /** Minimum horizontal distance of a swipe, in pixels (50) */
+  swipeDistance?: number
+  /** Maximum duration of a swipe, in milliseconds (500) */
+  swipeDuration?: number
+  /** Maximum delay between the taps of a `doubletap`, in milliseconds (300) */
+  doubleTapDelay?: number
+}
+
+export interface DelegationOptions<C = Controller> {
+  /** Listen during the capture phase instead of the bubbling phase */
+  capture?: boolean
+  /** Register the root listener as passive (the handler cannot call `preventDefault()`) */
+  passive?: boolean
+  /** Run the handler once overall (`true`), or once per matched target (`'target'`) */
+  once?: boolean | 'target'
+  /** Remove the delegation when the signal is aborted */
+  signal?: AbortSignal
+  /** Add the handler next to the ones already registered for the same event/selector instead of replacing them */
+  additive?: boolean
+  /** Ignore targets owned by a nested instance of the same controller, as Stimulus scopes targets */
+  scoped?: boolean
+  /** Match elements inside open shadow roots along `event.composedPath()`, crossing shadow boundaries */
+  composed?: boolean
+  /** Call the handler once events on a target have stopped for this many milliseconds */
+  debounce?: number
+  /** Call the handler at most once per this many milliseconds for a target, with the latest event */
+  throttle?: number
+  /** Call the handler once per animation frame for a target, with the latest event */
+  frame?: boolean
+  /** Listen on another root than the controller element, such as `document` or `window` */
+  root?: DelegationRoot
+  /** Call the handler for the matching elements of the controller when the event happens outside all of them */
+  outside?: boolean
+  /** Call the handler for the nearest matching element only (`'closest'`, default), or for every matching ancestor */
+  match?: 'closest' | 'all'
+  /** Called before each dispatch to a matched target: the handler is skipped when it returns false */
+  enabled?: (this: C, event: Event, target: Element) => boolean
+  /** Thresholds recognizing the gesture event types (`longpress`, `swipeleft`, `tap`...) */
+  gesture?: GestureOptions
+}
+
+/** Options of `delegateDispatch()`, along with the delegation options */
+export interface DelegateDispatchOptions<E extends Event = Event, T extends Element = Element>
+  extends DelegationOptions {
+  /** Detail of the dispatched event, or a function building it from the matched target and the source event */
+  detail?: object | ((target: T, event: E) => object)
+  /** Prefix of the dispatched event type, the controller identifier by default */
+  prefix?: string
+  bubbles?: boolean
+  cancelable?: boolean
+  /** Call `preventDefault()` on the source event */
+  preventDefault?: boolean
+  /** Call `preventDefault()` on the source event when the dispatched event is cancelled */
+  propagateCancel?: boolean
+}
+
+/** Element, document or window the root listener of a delegation is attached to */
+export type DelegationRoot = Element | Document | Window
+
+export interface Delegation<C = Controller> {
+  eventType: string
+  /** Key and modifier filter of the event descriptor, e.g. `enter` for `keydown.enter` */
+  filter?: string
+  selector: string
+  handler: DelegationHandler<Event, Element, C>
+  options: DelegationOptions<C>
+  /** Root listener dispatching events to the delegation, shared with the delegations of the same event type */
+  listener: EventListener
+}
+
+/**
+ * Declarative delegations, from `eventType->selector` to the name of the controller method handling them:
+ * `static delegations = { 'click->.btn': 'save' }`
+ */
+export type Delegations = Record<string, string>
+
+/** Selects delegations by event type (with or without its key filter) and/or selector */
+export interface DelegationFilter {
+  eventType?: string
+  selector?: string
+}
+
+export type UndelegateOptions = Pick<DelegationOptions, 'capture' | 'root' | 'outside'> | boolean
+
+export interface UseDelegationOptions {
+  /** Log every dispatch with `application.logDebugActivity()` while `application.debug` is enabled */
+  debug?: boolean
+  /** Handle errors thrown by handlers when the controller has no application (they are rethrown otherwise) */
+  onError?: (error: Error, message: string, detail: object) => void
+  /** Register again, when the controller reconnects, the delegations removed when it disconnected */
+  reconnect?: boolean
+}
+
+/** Snapshot of an active delegation, as listed by `inspectDelegations()` */
+export interface DelegationInfo<C = Controller> {
+  /** Event type, including its key and modifier filter */
+  eventType: string
+  selector: string
+  options: DelegationOptions<C>
+  /** Name of the handler function */
+  handler: string
+  /** Number of times the handler has been called */
+  hits: number
+  /** Whether the delegation is paused by `pauseDelegation()` */
+  paused: boolean
+}
+
+/**
+ * Methods added by `useDelegation()`. The event and element types of handlers
+ * are inferred from the event type and the selector, or can be given explicitly:
+ * `this.delegate<HTMLInputElement>('input', '.search', handler)`.
+ */
+export interface DelegationMethods {
+  delegatedEvents: Set<Delegation>
+  delegate<
+    K extends string,
+    S extends string,
+    E extends Event = DelegatedEvent<K>,
+    T extends Element = DelegatedElement<S>,
+  >(
+    eventType: K,
+    selector: S,
+    handler: DelegationHandler<E, T>,
+    options?: DelegationOptions,
+  ): this
+  delegate<T extends Element, E extends Event = Event>(
+    eventType: string,
+    selector: string,
+    handler: DelegationHandler<E, T>,
+    options?: DelegationOptions,
+  ): this
+  undelegate(eventType: string, selector: string, options?: UndelegateOptions): this
+  undelegate<E extends Event, T extends Element>(
+    eventType: string,
+    selector: string,
+    handler: DelegationHandler<E, T>,
+    options?: UndelegateOptions,
+  ): this
+  delegateTarget<K extends string, E extends Event = DelegatedEvent<K>, T extends Element = Element>(
+    eventType: K,
+    targetName: string,
+    handler: DelegationHandler<E, T>,
+    options?: DelegationOptions,
+  ): this
+  undelegateTarget(eventType: string, targetName: string, options?: UndelegateOptions): this
+  undelegateTarget<E extends Event, T extends Element>(
+    eventType: string,
+    targetName: string,
+    handler: DelegationHandler<E, T>,
+    options?: UndelegateOptions,
+  ): this
+  delegateOutside<
+    K extends string,
+    S extends string,
+    E extends Event = DelegatedEvent<K>,
+    T extends Element = DelegatedElement<S>,
+  >(
+    eventType: K,
+    selector: S,
+    handler: DelegationHandler<E, T>,
+    options?: DelegationOptions,
+  ): this
+  undelegateOutside(eventType: string, selector: string, options?: UndelegateOptions): this
+  undelegateOutside<E extends Event, T extends Element>(
+    eventType: string,
+    selector: string,
+    handler: DelegationHandler<E, T>,
+    options?: UndelegateOptions,
+  ): this
+  delegateDispatch<
+    K extends string,
+    S extends string,
+    E extends Event = DelegatedEvent<K>,
+    T extends Element = DelegatedElement<S>,
+  >(
+    eventType: K,
+    selector: S,
+    eventName: string,
+    options?: DelegateDispatchOptions<E, T>,
+  ): this
+  pauseDelegation(filter?: DelegationFilter): this
+  resumeDelegation(filter?: DelegationFilter): this
+  inspectDelegations(): DelegationInfo[]
+  rebindDelegations(element: Element): this
+  undelegateAll(): this
+}
+
+export interface DelegationController extends Controller, DelegationMethods {}
+
+export interface DelegatorOptions<C = Element> {
+  /** `this` of the handlers and `enabled` predicates, the delegator element by default */
+  context?: C
+  /** Identifier of the `data-<identifier>-<name>-param` attributes, and of the nested instances `scoped` ignores */
+  identifier?: string
+  /** Attribute listing the identifiers of nested instances (`data-controller` by default) */
+  controllerAttribute?: string
+  /** Key names of the key filters, the ones of Stimulus by default */
+  keyMappings?: Record<string, string>
+  /** Handle errors thrown by handlers (they are rethrown otherwise) */
+  onError?: (error: Error, message: string, detail: object) => void
+  /** Called for each delegation an event is dispatched to, matched or not, e.g. to log it */
+  onDispatch?: (detail: object) => void
+}
+
+/** Delegation registry on an element, returned by `createDelegator()`, calling its handlers with `C` as `this` */
+export interface Delegator<C = Element> {
+  /** Element the delegations listen on, unless they set another root */
+  readonly element: Element
+  /** Active delegations, in registration order */
+  readonly delegations: Set<Delegation<C>>
+  on<
+    K extends string,
+    S extends string,
+    E extends Event = DelegatedEvent<K>,
+    T extends Element = DelegatedElement<S>,
+  >(
+    eventType: K,
+    selector: S,
+    handler: DelegationHandler<E, T, C>,
+    options?: DelegationOptions<C>,
+  ): Delegator<C>
+  on<T extends Element, E extends Event = Event>(
+    eventType: string,
+    selector: string,
+    handler: DelegationHandler<E, T, C>,
+    options?: DelegationOptions<C>,
+  ): Delegator<C>
+  off(eventType: string, selector: string, options?: UndelegateOptions): Delegator<C>
+  off<E extends Event, T extends Element>(
+    eventType: string,
+    selector: string,
+    handler: DelegationHandler<E, T, C>,
+    options?: UndelegateOptions,
+  ): Delegator<C>
+  pause(filter?: DelegationFilter): Delegator<C>
+  resume(filter?: DelegationFilter): Delegator<C>
+  inspect(): DelegationInfo<C>[]
+  /** Removes every delegation and returns them, to attach them again later with their state (hits, paused...) */
+  detach(): Delegation<C>[]
+  attach(delegations: Iterable<Delegation<C>>): Delegator<C>
+  /** Moves the delegations listening on the element (all but those on another root) to a new element */
+  rebind(element: Element): Delegator<C>
+  /** Removes every delegation and its listeners */
+  destroy(): void
+}
+
+interface ListenerFlavor {
+  root: DelegationRoot
+  eventType: string
+  capture: boolean
+  passive: boolean
+}
+
+type SelectorMatcher = (element: Element) => boolean
+
+interface RootListener extends ListenerFlavor {
+  listener: EventListener
+}
+
+/** Pointer pressed on a matched target, followed until it completes the gesture or rules it out */
+interface GestureTracking {
+  stop: () => void
+}
+
+/** Pending debounced, throttled or frame-coalesced call for a matched target */
+interface Schedule {
+  event?: Event
+  timer?: ReturnType<typeof setTimeout>
+  frame?: number
+}
+
+/**
+ * Event types that do not bubble, and the listener used to delegate them:
+ * focus and blur are caught during the capture phase, enter/leave events are
+ * synthesized from their bubbling over/out counterparts.
+ */
+const nonBubblingEvents: Record<string, { eventType: string; capture?: boolean; enterLeave?: boolean }> = {
+  focus: { eventType: 'focus', capture: true },
+  blur: { eventType: 'blur', capture: true },
+  mouseenter: { eventType: 'mouseover', enterLeave: true },
+  mouseleave: { eventType: 'mouseout', enterLeave: true },
+  pointerenter: { eventType: 'pointerover', enterLeave: true },
+  pointerleave: { eventType: 'pointerout', enterLeave: true },
+}
+
+const modifierKeys = ['meta', 'ctrl', 'alt', 'shift']
+
+/** Gesture event types are delegated from `pointerdown`, then followed on the document */
+const gestureEvents = ['longpress', 'swipeleft', 'swiperight', 'tap', 'doubletap']
+
+const defaultGestureOptions: Required<GestureOptions> = {
+  longPressDelay: 500,
+  tolerance: 10,
+  swipeDistance: 50,
+  swipeDuration: 500,
+  doubleTapDelay: 300,
+}
+
+/** Options of the controllers already set up by `useDelegation()`, which can safely be called again */
+const installedOptions = new WeakMap<Controller, UseDelegationOptions>()
+
+/**
+ * Creates a delegation registry on an element, independent from Stimulus: the
+ * matching, containment and cleanup logic behind `useDelegation()`, usable in
+ * plain modules, Turbo stream actions or custom elements.
+ */
+export function createDelegator<C>(element: Element, options: DelegatorOptions<C> & { context: C }): Delegator<C>
+export function createDelegator(element: Element, options?: DelegatorOptions): Delegator
+export function createDelegator<C>(rootElement: Element, delegatorOptions: DelegatorOptions<C> = {}): Delegator<C> {
+  let element = rootElement
+  const delegations = new Set<Delegation<C>>()
+
+  // One root listener per root, event type and capture/passive flavor, shared by every selector registered for it
+  const rootListeners = new Set<RootListener>()
+  const handledTargets = new WeakMap<Delegation<C>, WeakSet<Element>>()
+  const schedules = new Map<Delegation<C>, Map<Element, Schedule>>()
+  const hits = new WeakMap<Delegation<C>, number>()
+  const registeredAt = new WeakMap<Delegation<C>, number>()
+  const paused = new WeakSet<Delegation<C>>()
+  const matchers = new WeakMap<Delegation<C>, SelectorMatcher>()
+  const gestures = new Map<Delegation<C>, Map<Element, GestureTracking>>()
+  const lastTaps = new WeakMap<Delegation<C>, WeakMap<Element, number>>()
+  // Abort listeners of the delegations given a signal, removed with them so the signal does not retain them
+  const abortListeners = new Map<Delegation<C>, () => void>()
+
+  const context = () => (delegatorOptions.context ?? element) as C
+
+  // Errors thrown by handlers during a dispatch, rethrown once the other delegations have run
+  let dispatchErrors: Error[] | undefined
+  const keyMappings = () => delegatorOptions.keyMappings ?? defaultSchema.keyMappings ?? {}
+
+  const listen = (flavor: ListenerFlavor): EventListener => {
+    const existing = [...rootListeners].find((rootListener) => sameFlavor(rootListener, flavor))
+    if (existing) return existing.listener
+
+    const rootListener: RootListener = {
+      ...flavor,
+      listener: (event: Event) => dispatch(rootListener, event),
+    }
+
+    rootListeners.add(rootListener)
+    flavor.root.addEventListener(flavor.eventType, rootListener.listener, {
+      capture: flavor.capture,
+      passive: flavor.passive,
+    })
+
+    return rootListener.listener
+  }
+
+  const unlisten = (listener: EventListener) => {
+    for (const delegation of delegations) {
+      if (delegation.listener === listener) return
+    }
+
+    for (const rootListener of rootListeners) {
+      if (rootListener.listener !== listener) continue
+
+      rootListener.root.removeEventListener(rootListener.eventType, listener, {
+        capture: rootListener.capture,
+      })
+      rootListeners.delete(rootListener)
+    }
+  }
+
+  // Outside delegations listen on the document by default, the others on the element
+  const rootFor = (options: Pick<DelegationOptions, 'root' | 'outside'>): DelegationRoot =>
+    options.root ?? (options.outside ? element.ownerDocument : element)
+
+  // Delegations on different roots, or inside and outside the matching elements, coexist
+  const sameRoot = (delegation: Delegation<C>, options: Pick<DelegationOptions, 'root' | 'outside'>): boolean =>
+    rootFor(delegation.options) === rootFor(options) && !!delegation.options.outside === !!options.outside
+
+  const add = (delegation: Delegation<C>) => {
+    const { eventType, options } = delegation
+    delegation.listener = listen(listenerFlavor(rootFor(options), eventType, options))
+    delegations.add(delegation)
+    if (options.outside) registeredAt.set(delegation, performance.now())
+
+    if (options.signal && !abortListeners.has(delegation)) {
+      const abort = () => remove(delegation)
+      options.signal.addEventListener('abort', abort, { once: true })
+      abortListeners.set(delegation, abort)
+    }
+  }
+
+  const unwatchSignal = (delegation: Delegation<C>) => {
+    const abort = abortListeners.get(delegation)
+    if (!abort) return
+
+    delegation.options.signal!.removeEventListener('abort', abort)
+    abortListeners.delete(delegation)
+  }
+
+  const remove = (delegation: Delegation<C>) => {
+    // The delegation may already have been replaced or removed
+    if (!delegations.delete(delegation)) return
+
+    cancelSchedules(delegation)
+    cancelGestures(delegation)
+    unwatchSignal(delegation)
+    unlisten(delegation.listener)
+  }
+
+  const run = (delegation: Delegation<C>, event: Event, target: Element) => {
+    const { once } = delegation.options
+    if (once === 'target') {
+      const targets = handledTargets.get(delegation)!
+      if (targets.has(target)) return
+      targets.add(target)
+    } else if (once) {
+      remove(delegation)
+    }
+
+    hits.set(delegation, (hits.get(delegation) ?? 0) + 1)
+
+    // Like Stimulus does for actions, params are set on the event before each call
+    const paramsEvent = Object.assign(event, { params: delegationParams(target, delegatorOptions.identifier) })
+
+    try {
+      // Bind handler to the context and pass target + event
+      delegation.handler.call(context(), paramsEvent, target)
+    } catch (error) {
+      handleError(error as Error, delegation, event, target)
+    }
+  }
+
+  const handleError = (error: Error, delegation: Delegation<C>, event: Event, target: Element) => {
+    if (!delegatorOptions.onError) {
+      if (!dispatchErrors) throw error
+      return dispatchErrors.push(error)
+    }
+
+    const eventType = eventDescriptor(delegation)
+    const { selector } = delegation
+    const message = `Error invoking delegation "${eventType}->${selector}"`
+    delegatorOptions.onError(error, message, { element, eventType, selector, event, target })
+  }
+
+  /**
+   * Runs the handler right away, or debounces, throttles or coalesces it per
+   * animation frame, separately for each matched target.
+   */
+  const schedule = (delegation: Delegation<C>, event: Event, target: Element) => {
+    const { debounce, throttle, frame } = delegation.options
+    if (debounce === undefined && throttle === undefined && !frame) return run(delegation, event, target)
+
+    let targets = schedules.get(delegation)
+    if (!targets) schedules.set(delegation, (targets = new Map()))
+
+    const state = targets.get(target) ?? {}
+    targets.set(target, state)
+
+    if (debounce !== undefined) {
+      clearTimeout(state.timer)
+      state.timer = setTimeout(() => {
+        targets.delete(target)
+        run(delegation, event, target)
+      }, debounce)
+    } else if (throttle !== undefined) {
+      // Leading call, then a trailing call with the latest event received while cooling down
+      const cooldown = () => {
+        state.timer = setTimeout(() => {
+          const pending = state.event
+          if (!pending) {
+            targets.delete(target)
+            return
+          }
+
+          state.event = undefined
+          cooldown()
+          run(delegation, pending, target)
+        }, throttle)
+      }
+
+      if (state.timer === undefined) {
+        cooldown()
+        run(delegation, event, target)
+      } else {
+        state.event = event
+      }
+    } else {
+      state.event = event
+      state.frame ??= requestAnimationFrame(() => {
+        targets.delete(target)
+        run(delegation, state.event!, target)
+      })
+    }
+  }
+
+  const cancelSchedules = (delegation: Delegation<C>) => {
+    for (const { timer, frame } of schedules.get(delegation)?.values() ?? []) {
+      clearTimeout(timer)
+      if (frame !== undefined) cancelAnimationFrame(frame)
+    }
+
+    schedules.delete(delegation)
+  }
+
+  const enabled = (delegation: Delegation<C>, event: Event, target: Element): boolean =>
+    delegation.options.enabled?.call(context(), event, target) ?? true
+
+  /**
+   * Follows the pointer pressed on a matched target until it is released or
+   * cancelled, and calls the handler when it completes the gesture.
+   */
+  const track = (delegation: Delegation<C>, down: PointerEvent, target: Element) => {
+    if (down.button > 0) return
+
+    let targets = gestures.get(delegation)
+    if (!targets) gestures.set(delegation, (targets = new Map()))
+    targets.get(target)?.stop()
+
+    const { eventType } = delegation
+    const thresholds = { ...defaultGestureOptions, ...delegation.options.gesture }
+    const swipe = eventType === 'swipeleft' || eventType === 'swiperight'
+    const { ownerDocument } = target
+    let latest = down
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const complete = (detail: GestureDetail) => {
+      const event = gestureEvent(eventType, target, detail)
+      if (enabled(delegation, event, target)) schedule(delegation, event, target)
+    }
+
+    // Followed on the document, as the pointer can leave the target
+    const listener = (event: Event) => {
+      const pointerEvent = event as PointerEvent
+      if (pointerEvent.pointerId !== down.pointerId) return
+
+      latest = pointerEvent
+      const detail = gestureDetail(down, pointerEvent)
+      const moved = Math.hypot(detail.deltaX, detail.deltaY) > thresholds.tolerance
+
+      if (event.type === 'pointermove') {
+        if (moved && !swipe) tracking.stop()
+        return
+      }
+
+      tracking.stop()
+      if (event.type === 'pointercancel' || !completesGesture(eventType, detail, thresholds)) return
+      if (eventType !== 'doubletap') return complete(detail)
+
+      let taps = lastTaps.get(delegation)
+      if (!taps) lastTaps.set(delegation, (taps = new WeakMap()))
+
+      const previous = taps.get(target)
+      if (previous !== undefined && pointerEvent.timeStamp - previous <= thresholds.doubleTapDelay) {
+        taps.delete(target)
+        complete(detail)
+      } else {
+        taps.set(target, pointerEvent.timeStamp)
+      }
+    }
+
+    const tracking: GestureTracking = {
+      stop: () => {
+        clearTimeout(timer)
+        for (const type of ['pointermove', 'pointerup', 'pointercancel']) {
+          ownerDocument.removeEventListener(type, listener, { capture: true })
+        }
+        if (targets.get(target) === tracking) targets.delete(target)
+      },
+    }
+
+    targets.set(target, tracking)
+    for (const type of ['pointermove', 'pointerup', 'pointercancel']) {
+      ownerDocument.addEventListener(type, listener, { capture: true })
+    }
+
+    if (eventType === 'longpress') {
+      timer = setTimeout(() => {
+        tracking.stop()
+        complete({ ...gestureDetail(down, latest), duration: thresholds.longPressDelay })
+      }, thresholds.longPressDelay)
+    }
+  }
+
+  const cancelGestures = (delegation: Delegation<C>) => {
+    for (const tracking of [...(gestures.get(delegation)?.values() ?? [])]) {
+      tracking.stop()
+    }
+
+    gestures.delete(delegation)
+  }
+
+  /**
+   * Walks the event path once and calls every delegation whose selector matches,
+   * using the nearest matching element (as `closest()` would) as the target.
+   */
+  const dispatch = (rootListener: RootListener, event: Event) => {
+    const matching = [...delegations].filter((delegation) => delegation.listener === rootListener.listener)
+    if (matching.length === 0) return
+
+    // Light DOM and composed paths are only computed when a delegation needs them
+    const paths = new Map<boolean, Element[]>()
+    const nestedIndexes = new Map<boolean, number>()
+
+    const pathFor = (delegation: Delegation<C>): Element[] => {
+      const composed = !!delegation.options.composed
+      if (!paths.has(composed)) {
+        paths.set(composed, elementPath(event, rootListener.root, composed))
+      }
+
+      return paths.get(composed)!
+    }
+
+    /**
+     * Returns the nearest matching element of the event path, or every matching
+     * element from the innermost outward with `match: 'all'`.
+     */
+    const match = (delegation: Delegation<C>): Element[] => {
+      if (delegation.filter && !filterMatches(event, delegation.filter, keyMappings())) return []
+
+      const path = pathFor(delegation)
+      const matches = matchers.get(delegation)!
+      const all = delegation.options.match === 'all'
+      let indexes: number[] = []
+
+      for (let index = 0; index < path.length; index++) {
+        if (!matches(path[index])) continue
+
+        indexes.push(index)
+        if (!all) break
+      }
+
+      if (indexes.length > 0 && delegation.options.scoped) {
+        const composed = !!delegation.options.composed
+        if (!nestedIndexes.has(composed)) {
+          nestedIndexes.set(composed, nestedInstanceIndex(path, element, delegatorOptions))
+        }
+        indexes = indexes.filter((index) => index > nestedIndexes.get(composed)!)
+      }
+
+      return indexes.map((index) => path[index])
+    }
+
+    /**
+     * Returns the matching elements of the delegator element (itself included)
+     * when none of them is in the event path, ignoring the event during which
+     * the delegation was added (such as the click opening a menu).
+     */
+    const outside = (delegation: Delegation<C>): Element[] => {
+      if (event.timeStamp < registeredAt.get(delegation)!) return []
+      if (delegation.filter && !filterMatches(event, delegation.filter, keyMappings())) return []
+
+      const matches = matchers.get(delegation)!
+      const inside = pathFor(delegation).some((pathElement) => matches(pathElement) && element.contains(pathElement))
+      if (inside) return []
+
+      const targets = [...element.querySelectorAll(delegation.selector)]
+      return matches(element) ? [element, ...targets] : targets
+    }
+
+    const { onDispatch } = delegatorOptions
+
+    // The delegations share the root listener, so stopping immediate propagation has to skip the next ones here
+    let stoppedImmediately = false
+    const { stopImmediatePropagation } = event
+    event.stopImmediatePropagation = function (this: Event) {
+      stoppedImmediately = true
+      stopImmediatePropagation.call(this)
+    }
+
+    // Like errors thrown by separate listeners, an error does not keep the next delegations from running
+    const errors: Error[] = []
+    const outerErrors = dispatchErrors
+    dispatchErrors = errors
+
+    try {
+      for (const delegation of matching) {
+        if (stoppedImmediately) break
+
+        // Like listeners removed during dispatch, delegations removed (or paused) by an earlier handler do not run
+        if (!delegations.has(delegation) || paused.has(delegation)) continue
+
+        let targets = delegation.options.outside ? outside(delegation) : match(delegation)
+
+        // Enter/leave only fire when the pointer comes from, or goes to, outside the target
+        const enterLeave = nonBubblingEvents[delegation.eventType]?.enterLeave
+        const relatedTarget = (event as MouseEvent).relatedTarget as Node | null
+        if (enterLeave && relatedTarget) targets = targets.filter((target) => !target.contains(relatedTarget))
+
+        if (onDispatch) {
+          const multiple = delegation.options.outside || delegation.options.match === 'all'
+          onDispatch({
+            event,
+            selector: delegation.selector,
+            matched: targets.length > 0,
+            target: targets[0] ?? null,
+            ...(multiple && { targets }),
+            handler: handlerName(delegation.handler),
+          })
+        }
+
+        for (const target of targets) {
+          if (gestureEvents.includes(delegation.eventType)) {
+            track(delegation, event as PointerEvent, target)
+            continue
+          }
+
+          if (!enabled(delegation, event, target)) continue
+
+          const delegatedEvent = enterLeave ? enterLeaveEvent(delegation.eventType, event as MouseEvent, target) : event
+          const bubbling = !delegatedEvent.cancelBubble
+          schedule(delegation, delegatedEvent, target)
+
+          if (stoppedImmediately) break
+          if (!delegations.has(delegation) || paused.has(delegation)) break
+          // Like propagation between ancestors, stopping it in this handler skips the outer targets
+          if (delegation.options.match === 'all' && bubbling && delegatedEvent.cancelBubble) break
+        }
+      }
+    } finally {
+      event.stopImmediatePropagation = stopImmediatePropagation
+      dispatchErrors = outerErrors
+    }
+
+    const [error, ...others] = errors
+    for (const other of others) {
+      queueMicrotask(() => {
+        throw other
+      })
+    }
+    if (error) throw error
+  }
+
+  const delegator: Delegator<C> = {
+    get element() {
+      return element
+    },
+    delegations,
+
+    on(
+      eventType: string,
+      selector: string,
+      handler: DelegationHandler<Event, Element, C>,
+      options: DelegationOptions<C> = {},
+    ) {
+      const descriptor = parseEventDescriptor(eventType, keyMappings())
+      const matcher = compileSelector(eventType, selector, delegatorOptions.identifier)
+
+      // An aborted signal leaves the existing handlers in place
+      if (options.signal?.aborted) return delegator
+
+      // Replaces the existing handlers for the same event/selector/phase, or only
+      // the same handler when adding to them
+      for (const existing of [...delegations]) {
+        const same = isSameDelegation(existing, descriptor, selector, !!options.capture) && sameRoot(existing, options)
+        if (!same) continue
+        if (!options.additive || existing.handler === handler) remove(existing)
+      }
+
+      const delegation: Delegation<C> = {
+        ...descriptor,
+        selector,
+        handler,
+        options: { ...options },
+        listener: listen(listenerFlavor(rootFor(options), descriptor.eventType, options)),
+      }
+      matchers.set(delegation, matcher)
+      if (options.once === 'target') handledTargets.set(delegation, new WeakSet())
+      add(delegation)
+
+      return delegator
+    },
+
+    off(
+      eventType: string,
+      selector: string,
+      handlerOrOptions?: DelegationHandler<Event, Element, C> | UndelegateOptions,
+      options: UndelegateOptions = {},
+    ) {
+      const handler = typeof handlerOrOptions === 'function' ? handlerOrOptions : undefined
+      if (!handler && handlerOrOptions !== undefined) options = handlerOrOptions as UndelegateOptions
+
+      const capture = typeof options === 'boolean' ? options : !!options.capture
+      const placement = typeof options === 'boolean' ? {} : options
+      const descriptor = parseEventDescriptor(eventType, keyMappings())
+
+      for (const delegation of [...delegations]) {
+        if (!isSameDelegation(delegation, descriptor, selector, capture) || !sameRoot(delegation, placement)) continue
+        if (!handler || delegation.handler === handler) remove(delegation)
+      }
+
+      return delegator
+    },
+
+    pause(filter: DelegationFilter = {}) {
+      for (const delegation of delegations) {
+        if (!matchesFilter(delegation, filter, keyMappings())) continue
+
+        // Pending debounced, throttled or frame calls are dropped rather than run while paused
+        paused.add(delegation)
+        cancelSchedules(delegation)
+        cancelGestures(delegation)
+      }
+
+      return delegator
+    },
+
+    resume(filter: DelegationFilter = {}) {
+      for (const delegation of delegations) {
+        if (matchesFilter(delegation, filter, keyMappings())) paused.delete(delegation)
+      }
+
+      return delegator
+    },
+
+    inspect() {
+      return [...delegations].map((delegation) => ({
+        eventType: eventDescriptor(delegation),
+        selector: delegation.selector,
+        options: delegation.options,
+        handler: handlerName(delegation.handler),
+        hits: hits.get(delegation) ?? 0,
+        paused: paused.has(delegation),
+      }))
+    },
+
+    detach() {
+      const detached = [...delegations]
+      delegator.destroy()
+
+      return detached
+    },
+
+    // The entries are kept as they were (hits, paused state...) and get listeners on their roots again
+    attach(detached: Iterable<Delegation<C>>) {
+      for (const delegation of detached) {
+        if (delegation.options.signal?.aborted || delegations.has(delegation)) continue
+
+        const { eventType, selector } = delegation
+        if (!matchers.has(delegation)) {
+          matchers.set(delegation, compileSelector(eventType, selector, delegatorOptions.identifier))
+        }
+        if (delegation.options.once === 'target' && !handledTargets.has(delegation)) {
+          handledTargets.set(delegation, new WeakSet())
+        }
+        add(delegation)
+      }
+
+      return delegator
+    },
+
+    // The other delegations, listening on another root, keep their listener and pending calls
+    rebind(newElement: Element) {
+      if (newElement === element) return delegator
+
+      const moved = [...delegations].filter((delegation) => rootFor(delegation.options) === element)
+      for (const delegation of moved) {
+        delegations.delete(delegation)
+        unlisten(delegation.listener)
+      }
+
+      element = newElement
+      for (const delegation of moved) {
+        add(delegation)
+      }
+
+      return delegator
+    },
+
+    destroy() {
+      for (const { root, eventType, capture, listener } of rootListeners) {
+        root.removeEventListener(eventType, listener, { capture })
+      }
+
+      for (const delegation of [...schedules.keys()]) {
+        cancelSchedules(delegation)
+      }
+
+      for (const delegation of [...gestures.keys()]) {
+        cancelGestures(delegation)
+      }
+
+      for (const delegation of [...abortListeners.keys()]) {
+        unwatchSignal(delegation)
+      }
+
+      rootListeners.clear()
+      delegations.clear()
+    },
+  }
+
+  return delegator
 }
 
-export function useDelegation(controller: Controller) {
+export function useDelegation(controller: Controller, options: UseDelegationOptions = {}) {
+  // Calling it again (from `connect()` for instance) only updates the options
+  const installed = installedOptions.get(controller)
+  if (installed) {
+    Object.assign(installed, options)
+    return
+  }
+
+  options = { ...options }
+  installedOptions.set(controller, options)
+
   const delegationController = controller as DelegationController
 
-  delegationController.delegatedEvents = new Map()
+  const routeError = (error: Error, message: string, detail: object) => {
+    const { identifier, application } = controller
+    const controllerDetail = { identifier, controller, ...detail }
+
+    if (application) {
+      application.handleError(error, message, controllerDetail)
+    } else {
+      options.onError?.(error, message, controllerDetail)
+    }
+  }
+
+  const logDispatch = (detail: object) =>
+    controller.application.logDebugActivity?.(controller.identifier, 'delegate', detail)
+
+  // The identifier and the schema are read when needed, as they are not always set yet
+  const delegator = createDelegator(controller.element, {
+    context: controller,
+    get identifier() {
+      return controller.identifier
+    },
+    get controllerAttribute() {
+      return controller.application?.schema.controllerAttribute
+    },
+    get keyMappings() {
+      return keyMappings(controller)
+    },
+    // Like action errors, handler errors go to the application error handler; without one nor fallback, the delegator
+    // rethrows them
+    get onError() {
+      return controller.application || options.onError ? routeError : undefined
+    },
+    // Only set while debugging, so that dispatches build nothing to log otherwise
+    get onDispatch() {
+      return options.debug && controller.application?.debug ? logDispatch : undefined
+    },
+  })
+
+  // Delegations removed on disconnect, registered again on reconnect with the `reconnect` option
+  let detached: Delegation[] = []
+
+  delegationController.delegatedEvents = delegator.delegations
 
   const originalDisconnect = delegationController.disconnect.bind(delegationController)
 
   delegationController.disconnect = () => {
+    detached = options.reconnect ? delegator.detach() : []
     delegationController.undelegateAll()
     originalDisconnect.call(delegationController)
   }
 
+  // Declarative delegations are bound on every connect, like `data-action`
+  const delegateDeclared = () => {
+    for (const { eventType, selector, method } of declaredDelegations(delegationController)) {
+      delegationController.delegate(eventType, selector, resolveMethod(delegationController, method), {
+        additive: true,
+      })
+    }
+  }
+
+  const originalConnect = delegationController.connect?.bind(delegationController)
+
+  delegationController.connect = () => {
+    delegator.attach(detached)
+    detached = []
+    delegateDeclared()
+    originalConnect?.call(delegationController)
+  }
+
   delegationController.delegate = function (
     this: DelegationController,
     eventType: string,
     selector: string,
     handler: DelegationHandler,
+    options?: DelegationOptions,
   ) {
-    const key = `${eventType}:${selector}`
+    delegator.on(eventType, selector, handler, options)
+    return this
+  }
 
-    // Remove existing listener if present
-    if (this.delegatedEvents.has(key)) {
-      const existingHandler = this.delegatedEvents.get(key)!
-      this.element.removeEventListener(eventType, existingHandler)
-    }
+  delegationController.undelegate = function (
+    this: DelegationController,
+    eventType: string,
+    selector: string,
+    handlerOrOptions?: DelegationHandler | UndelegateOptions,
+    options?: UndelegateOptions,
+  ) {
+    delegator.off(eventType, selector, handlerOrOptions as DelegationHandler, options)
+    return this
+  }
+
+  delegationController.delegateTarget = function (
+    this: DelegationController,
+    eventType: string,
+    targetName: string,
+    handler: DelegationHandler,
+    options?: DelegationOptions,
+  ) {
+    return this.delegate(eventType, targetSelector(this, targetName), handler, options)
+  } as DelegationController['delegateTarget']
 
-    // Create delegated event handler
-    const delegatedHandler = (event: Event) => {
-      const eventTarget = event.target as Node | null
-      if (!eventTarget) return
+  delegationController.undelegateTarget = function (
+    this: DelegationController,
+    eventType: string,
+    targetName: string,
+    handlerOrOptions?: DelegationHandler | UndelegateOptions,
+    options?: UndelegateOptions,
+  ) {
+    return this.undelegate(eventType, targetSelector(this, targetName), handlerOrOptions as DelegationHandler, options)
+  }
 
-      const element = eventTarget.nodeType === Node.ELEMENT_NODE ? (eventTarget as Element) : eventTarget.parentElement
-      const target = element?.closest(selector)
+  delegationController.delegateOutside = function (
+    this: DelegationController,
+    eventType: string,
+    selector: string,
+    handler: DelegationHandler,
+    options?: DelegationOptions,
+  ) {
+    return this.delegate(eventType, selector, handler, { ...options, outside: true })
+  } as DelegationController['delegateOutside']
 
-      if (target && this.element.contains(target)) {
-        // Bind handler to controller context and pass target + event
-        handler.call(this, event, target)
-      }
+  delegationController.undelegateOutside = function (
+    this: DelegationController,
+    eventType: string,
+    selector: string,
+    handlerOrOptions?: DelegationHandler | UndelegateOptions,
+    options?: UndelegateOptions,
+  ) {
+    if (typeof handlerOrOptions !== 'function') {
+      return this.undelegate(eventType, selector, { ...toUndelegateOptions(handlerOrOptions), outside: true })
     }
 
-    // Store and attach listener
-    this.delegatedEvents.set(key, delegatedHandler)
-    this.element.addEventListener(eventType, delegatedHandler)
+    return this.undelegate(eventType, selector, handlerOrOptions, { ...toUndelegateOptions(options), outside: true })
+  }
+
+  // Dispatches the event from the matched target, the way `Controller.dispatch()` does from the controller element
+  delegationController.delegateDispatch = function (
+    this: DelegationController,
+    eventType: string,
+    selector: string,
+    eventName: string,
+    options: DelegateDispatchOptions = {},
+  ) {
+    const {
+      detail = {},
+      prefix = this.identifier,
+      bubbles = true,
+      cancelable = true,
+      preventDefault,
+      propagateCancel,
+      ...delegationOptions
+    } = options
+    const type = prefix ? `${prefix}:${eventName}` : eventName
+
+    return this.delegate(
+      eventType,
+      selector,
+      function redispatch(event: Event, target: Element) {
+        if (preventDefault) event.preventDefault()
 
+        const dispatched = new CustomEvent(type, {
+          detail: typeof detail === 'function' ? detail(target, event) : detail,
+          bubbles,
+          cancelable,
+        })
+        target.dispatchEvent(dispatched)
+
+        if (propagateCancel && dispatched.defaultPrevented) event.preventDefault()
+      },
+      delegationOptions,
+    )
+  } as DelegationController['delegateDispatch']
+
+  delegationController.pauseDelegation = function (this: DelegationController, filter?: DelegationFilter) {
+    delegator.pause(filter)
     return this
   }
 
-  delegationController.undelegate = function (this: DelegationController, eventType: string, selector: string) {
-    const key = `${eventType}:${selector}`
-    const handler = this.delegatedEvents.get(key)
+  delegationController.resumeDelegation = function (this: DelegationController, filter?: DelegationFilter) {
+    delegator.resume(filter)
+    return this
+  }
 
-    if (handler) {
-      this.element.removeEventListener(eventType, handler)
-      this.delegatedEvents.delete(key)
-    }
+  delegationController.inspectDelegations = () => delegator.inspect()
 
+  delegationController.rebindDelegations = function (this: DelegationController, element: Element) {
+    delegator.rebind(element)
     return this
   }
 
   delegationController.undelegateAll = function (this: DelegationController) {
-    for (const [key, handler] of this.delegatedEvents) {
-      const [eventType] = key.split(':')
-      this.element.removeEventListener(eventType, handler)
+    delegator.destroy()
+    return this
+  }
+
+  delegateDeclared()
+}
+
+/**
+ * Mixin adding the delegation methods to a controller class, so that they do
+ * not have to be declared on every controller:
+ * `export default class extends withDelegation(Controller) {}`
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function withDelegation<TBase extends new (...args: any[]) => Controller>(
+  Base: TBase,
+  options?: UseDelegationOptions,
+) {
+  return class extends Base {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    constructor(...args: any[]) {
+      super(...args)
+      useDelegation(this, options)
     }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  } as TBase & (new (...args: any[]) => DelegationMethods)
+}
 
-    this.delegatedEvents.clear()
-    return this
+/**
+ * Reads the `data-<identifier>-delegate` attribute of the controller element
+ * (`click->.btn#save input->input[type=text]#filter`) and the static
+ * `delegations` of the controller class.
+ */
+function declaredDelegations(controller: Controller): Array<{ eventType: string; selector: string; method: string }> {
+  const declared = []
+  const { delegations = {} } = controller.constructor as { delegations?: Delegations }
+
+  for (const [descriptor, method] of Object.entries(delegations)) {
+    const match = descriptor.match(/^(.+?)->(.+)$/)
+    if (!match) throw new Error(`Invalid delegation "${descriptor}" in ${controller.identifier} controller delegations`)
+
+    declared.push({ eventType: match[1], selector: match[2], method })
+  }
+
+  const attribute = controller.identifier && controller.element.getAttribute(`data-${controller.identifier}-delegate`)
+
+  for (const descriptor of attribute?.trim().split(/\s+/) ?? []) {
+    const match = descriptor.match(/^(.+?)->(.+)#([^#]+)$/)
+    if (!match) throw new Error(`Invalid delegation descriptor "${descriptor}" on ${controller.identifier} controller`)
+
+    declared.push({ eventType: match[1], selector: match[2], method: match[3] })
   }
+
+  return declared
+}
+
+/**
+ * Builds the selector of the controller targets with the given name, from the
+ * target attributes of the application schema: `[data-todo-target~="item"]`,
+ * and the legacy `[data-target~="todo.item"]` when the schema defines it.
+ */
+function targetSelector(controller: Controller, targetName: string): string {
+  const { identifier } = controller
+  if (!identifier) throw new Error(`Cannot delegate to "${targetName}" targets without a controller identifier`)
+
+  const schema = controller.application?.schema ?? defaultSchema
+  const selectors = [`[${schema.targetAttributeForScope(identifier)}~="${targetName}"]`]
+  if (schema.targetAttribute) selectors.push(`[${schema.targetAttribute}~="${identifier}.${targetName}"]`)
+
+  return selectors.join(', ')
+}
+
+function toUndelegateOptions(options: UndelegateOptions = {}): Exclude<UndelegateOptions, boolean> {
+  return typeof options === 'boolean' ? { capture: options } : options
+}
+
+/**
+ * Reads the params of the matched target with the Stimulus rules:
+ * `data-todo-item-id-param="42"` gives `{ itemId: 42 }`, values being cast
+ * from JSON (numbers, booleans, objects) or kept as strings.
+ */
+function delegationParams(target: Element, identifier: string | undefined): DelegationParams {
+  const params: DelegationParams = {}
+  if (!identifier) return params
+
+  const pattern = new RegExp(`^data-${identifier}-(.+)-param$`, 'i')
+
+  for (const { name, value } of Array.from(target.attributes)) {
+    const key = name.match(pattern)?.[1]
+    if (key) params[camelize(key)] = typecast(value)
+  }
+
+  return params
+}
+
+function camelize(value: string): string {
+  return value.replace(/(?:[_-])([a-z0-9])/g, (_, char: string) => char.toUpperCase())
+}
+
+function typecast(value: string): unknown {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+function eventDescriptor({ eventType, filter }: Pick<Delegation, 'eventType' | 'filter'>): string {
+  return filter ? `${eventType}.${filter}` : eventType
+}
+
+function handlerName(handler: { name: string }): string {
+  return handler.name || 'anonymous'
+}
+
+function resolveMethod(controller: Controller, method: string): DelegationHandler {
+  const handler = (controller as unknown as Record<string, unknown>)[method]
+  if (typeof handler !== 'function') {
+    throw new Error(`Delegation references undefined method "${method}" on ${controller.identifier} controller`)
+  }
+
+  return handler as DelegationHandler
+}
+
+/**
+ * Validates the selector, so that an invalid one fails when delegating rather
+ * than on every event, and compiles the simple ones (`.class`, `#id`, `tag`,
+ * `[attribute]` and `[attribute="value"]`) into a check skipping the selector
+ * engine. Other selectors are matched with `Element.matches()`.
+ */
+function compileSelector(eventType: string, selector: string, identifier?: string): SelectorMatcher {
+  try {
+    document.createDocumentFragment().querySelector(selector)
+  } catch {
+    const owner = identifier ? ` on ${identifier} controller` : ''
+    throw new Error(`Invalid selector "${selector}" for "${eventType}" delegation${owner}`)
+  }
+
+  let match: RegExpMatchArray | null
+  if ((match = selector.match(/^\.([\w-]+)$/))) {
+    const className = match[1]
+    return (element) => element.classList.contains(className)
+  }
+  if ((match = selector.match(/^#([\w-]+)$/))) {
+    const id = match[1]
+    return (element) => element.id === id
+  }
+  if (/^[a-z][a-z0-9-]*$/.test(selector)) {
+    return (element) => element.localName === selector
+  }
+  if ((match = selector.match(/^\[([\w-]+)(?:=(?:"([^"\\]*)"|'([^'\\]*)'|([\w-]+)))?\]$/))) {
+    const [, name, ...values] = match
+    const value = values.find((value) => value !== undefined)
+    return value === undefined
+      ? (element) => element.hasAttribute(name)
+      : (element) => element.getAttribute(name) === value
+  }
+
+  return (element) => element.matches(selector)
+}
+
+/**
+ * Returns the index of the outermost element of the path (the delegator
+ * element excluded) carrying the identifier, or -1 when no nested instance
+ * sits between the event target and the delegator element.
+ */
+function nestedInstanceIndex(
+  path: Element[],
+  element: Element,
+  { identifier, controllerAttribute = 'data-controller' }: Pick<DelegatorOptions, 'identifier' | 'controllerAttribute'>,
+): number {
+  if (!identifier) return -1
+
+  const elementIndex = path.indexOf(element)
+
+  for (let index = (elementIndex === -1 ? path.length : elementIndex) - 1; index >= 0; index--) {
+    const identifiers = path[index].getAttribute(controllerAttribute)?.split(/\s+/)
+    if (identifiers?.includes(identifier)) return index
+  }
+
+  return -1
+}
+
+/**
+ * Like `addEventListener()`, a delegation is identified by its event type,
+ * its selector and its phase (and its root): capture and bubble registrations coexist.
+ */
+function isSameDelegation<C>(
+  delegation: Delegation<C>,
+  { eventType, filter }: Pick<Delegation, 'eventType' | 'filter'>,
+  selector: string,
+  capture: boolean,
+): boolean {
+  return (
+    delegation.eventType === eventType &&
+    delegation.filter === filter &&
+    delegation.selector === selector &&
+    !!delegation.options.capture === capture
+  )
+}
+
+/**
+ * An event type without key filter selects the delegations of that event type
+ * whatever their filter: `keydown` selects `keydown.enter` and `keydown.esc`.
+ */
+function matchesFilter<C>(
+  delegation: Delegation<C>,
+  { eventType, selector }: DelegationFilter,
+  keyMappings: Record<string, string>,
+): boolean {
+  if (selector !== undefined && delegation.selector !== selector) return false
+  if (eventType === undefined) return true
+
+  const descriptor = parseEventDescriptor(eventType, keyMappings)
+  return (
+    delegation.eventType === descriptor.eventType && (!descriptor.filter || delegation.filter === descriptor.filter)
+  )
+}
+
+function keyMappings(controller: Controller): Record<string, string> {
+  return controller.application?.schema.keyMappings ?? defaultSchema.keyMappings ?? {}
+}
+
+/**
+ * Splits `keydown.enter` or `click.meta+shift` into the event type and the
+ * key/modifier filter, using the key names of Stimulus actions. Event types
+ * containing dots that are not filters (`show.bs.modal`) are left untouched.
+ */
+function parseEventDescriptor(
+  descriptor: string,
+  keyMappings: Record<string, string>,
+): Pick<Delegation, 'eventType' | 'filter'> {
+  const dot = descriptor.indexOf('.')
+  if (dot === -1) return { eventType: descriptor }
+
+  const eventType = descriptor.slice(0, dot)
+  const filter = descriptor.slice(dot + 1)
+  const isFilter = filter
+    .split('+')
+    .every((key) => modifierKeys.includes(key) || Object.prototype.hasOwnProperty.call(keyMappings, key))
+
+  if (isFilter) return { eventType, filter }
+  if (eventType.startsWith('key')) throw new Error(`Unknown key filter "${filter}" in "${descriptor}"`)
+
+  return { eventType: descriptor }
+}
+
+/**
+ * Like Stimulus actions, every modifier must match exactly (unlisted ones must
+ * not be pressed) and the key, if any, must be the one pressed.
+ */
+function filterMatches(event: Event, filter: string, keyMappings: Record<string, string>): boolean {
+  const keys = filter.split('+')
+  const modifierEvent = event as KeyboardEvent | MouseEvent
+  const [meta, ctrl, alt, shift] = modifierKeys.map((modifier) => keys.includes(modifier))
+
+  if (
+    !!modifierEvent.metaKey !== meta ||
+    !!modifierEvent.ctrlKey !== ctrl ||
+    !!modifierEvent.altKey !== alt ||
+    !!modifierEvent.shiftKey !== shift
+  ) {
+    return false
+  }
+
+  const key = keys.find((key) => !modifierKeys.includes(key))
+  if (!key) return true
+
+  return (event as KeyboardEvent).key?.toLowerCase() === keyMappings[key].toLowerCase()
+}
+
+function listenerFlavor(
+  root: DelegationRoot,
+  eventType: string,
+  options: Pick<DelegationOptions, 'capture' | 'passive'>,
+): ListenerFlavor {
+  const nonBubbling = nonBubblingEvents[eventType]
+  const gesture = gestureEvents.includes(eventType)
+
+  return {
+    root,
+    eventType: gesture ? 'pointerdown' : (nonBubbling?.eventType ?? eventType),
+    capture: !!(options.capture || nonBubbling?.capture),
+    passive: !!options.passive,
+  }
+}
+
+function sameFlavor(a: ListenerFlavor, b: ListenerFlavor): boolean {
+  return a.root === b.root && a.eventType === b.eventType && a.capture === b.capture && a.passive === b.passive
+}
+
+/**
+ * Builds the enter/leave event a matched target would have received from the
+ * over/out event it was delegated from.
+ */
+function enterLeaveEvent(type: string, event: MouseEvent, target: Element): MouseEvent {
+  const init: PointerEventInit = {
+    bubbles: false,
+    cancelable: false,
+    composed: false,
+    view: event.view,
+    detail: event.detail,
+    relatedTarget: event.relatedTarget,
+    screenX: event.screenX,
+    screenY: event.screenY,
+    clientX: event.clientX,
+    clientY: event.clientY,
+    ctrlKey: event.ctrlKey,
+    shiftKey: event.shiftKey,
+    altKey: event.altKey,
+    metaKey: event.metaKey,
+    button: event.button,
+    buttons: event.buttons,
+  }
+
+  if ('pointerId' in event) {
+    const pointerEvent = event as PointerEvent
+    Object.assign(init, {
+      pointerId: pointerEvent.pointerId,
+      pointerType: pointerEvent.pointerType,
+      isPrimary: pointerEvent.isPrimary,
+      width: pointerEvent.width,
+      height: pointerEvent.height,
+      pressure: pointerEvent.pressure,
+    })
+  }
+
+  const EventConstructor = event.constructor as typeof MouseEvent
+  const enterLeave = new EventConstructor(type, init)
+  Object.defineProperty(enterLeave, 'target', { value: target })
+
+  return enterLeave
+}
+
+function gestureDetail(down: PointerEvent, pointerEvent: PointerEvent): GestureDetail {
+  return {
+    pointerEvent,
+    deltaX: pointerEvent.clientX - down.clientX,
+    deltaY: pointerEvent.clientY - down.clientY,
+    duration: pointerEvent.timeStamp - down.timeStamp,
+  }
+}
+
+/**
+ * Swipes are mostly horizontal moves, long and fast enough, in the direction
+ * of the event type. Taps are quick releases of the pointer where it was pressed.
+ */
+function completesGesture(eventType: string, detail: GestureDetail, thresholds: Required<GestureOptions>): boolean {
+  const { deltaX, deltaY, duration } = detail
+
+  if (eventType === 'swipeleft' || eventType === 'swiperight') {
+    const distance = eventType === 'swipeleft' ? -deltaX : deltaX
+    return distance >= thresholds.swipeDistance && distance > Math.abs(deltaY) && duration <= thresholds.swipeDuration
+  }
+
+  return (
+    (eventType === 'tap' || eventType === 'doubletap') &&
+    Math.hypot(deltaX, deltaY) <= thresholds.tolerance &&
+    duration < thresholds.longPressDelay
+  )
+}
+
+function gestureEvent(type: string, target: Element, detail: GestureDetail): GestureEvent {
+  const event = new CustomEvent(type, { detail })
+  Object.defineProperty(event, 'target', { value: target })
+
+  return event
+}
+
+/**
+ * Returns the elements between the event target and the root (both included),
+ * innermost first, or an empty list when the target is outside the root. With
+ * a document or window root, the path goes up to the document element.
+ *
+ * The composed path starts inside the open shadow roots the event came from,
+ * whereas the light DOM path starts at the (retargeted) event target.
+ */
+function elementPath(event: Event, root: DelegationRoot, composed: boolean): Element[] {
+  if (composed) {
+    const path = event.composedPath().filter((target): target is Element => target instanceof Element)
+    if (!(root instanceof Element)) return path
+
+    const rootIndex = path.indexOf(root)
+
+    return rootIndex === -1 ? [] : path.slice(0, rootIndex + 1)
+  }
+
+  let eventTarget = event.target as Node | null
+  if (!eventTarget) return []
+
+  // Retarget events coming from shadow trees to their host in the tree of the root
+  const rootNode = root instanceof Element ? root.getRootNode() : 'document' in root ? root.document : root
+  let targetRootNode = eventTarget.getRootNode()
+  while (targetRootNode !== rootNode && targetRootNode instanceof ShadowRoot) {
+    eventTarget = targetRootNode.host
+    targetRootNode = eventTarget.getRootNode()
+  }
+
+  const path: Element[] = []
+  let element = eventTarget.nodeType === Node.ELEMENT_NODE ? (eventTarget as Element) : eventTarget.parentElement
+
+  while (element) {
+    path.push(element)
+    if (element === root) return path
+    element = element.parentElement
+  }
+
+  return root instanceof Element ? [] : path
 }
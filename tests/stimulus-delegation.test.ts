@@ -1,12 +1,32 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { useDelegation, DelegationController, DelegationHandler } from '../src/stimulus-delegation'
+import { describe, it, expect, expectTypeOf, vi, beforeEach, afterEach } from 'vitest'
+import { Application, Controller, defaultSchema } from '@hotwired/stimulus'
+import {
+  createDelegator,
+  useDelegation,
+  withDelegation,
+  Delegation,
+  DelegationController,
+  DelegationHandler,
+  DelegatedElement,
+  Delegations,
+  GestureEvent,
+} from '../src/stimulus-delegation'
 
 class TestController implements DelegationController {
   element: HTMLElement
-  delegatedEvents!: Map<string, EventListener>
-  delegate!: (eventType: string, selector: string, handler: DelegationHandler) => this
-  undelegate!: (eventType: string, selector: string) => this
-  undelegateAll!: () => this
+  delegatedEvents!: Set<Delegation>
+  delegate!: DelegationController['delegate']
+  undelegate!: DelegationController['undelegate']
+  delegateTarget!: DelegationController['delegateTarget']
+  undelegateTarget!: DelegationController['undelegateTarget']
+  delegateOutside!: DelegationController['delegateOutside']
+  undelegateOutside!: DelegationController['undelegateOutside']
+  delegateDispatch!: DelegationController['delegateDispatch']
+  pauseDelegation!: DelegationController['pauseDelegation']
+  resumeDelegation!: DelegationController['resumeDelegation']
+  inspectDelegations!: DelegationController['inspectDelegations']
+  rebindDelegations!: DelegationController['rebindDelegations']
+  undelegateAll!: DelegationController['undelegateAll']
 
   handleClick = vi.fn()
   handleMouseover = vi.fn()
@@ -147,13 +167,13 @@ describe('useDelegation', () => {
       expect(result).toBe(ctrl)
     })
 
-    it('initializes delegatedEvents map if not present', () => {
+    it('initializes delegatedEvents registry if not present', () => {
       const newCtrl = new TestController()
       expect(newCtrl.delegatedEvents).toBeUndefined()
 
       useDelegation(newCtrl)
 
-      expect(newCtrl.delegatedEvents).toBeInstanceOf(Map)
+      expect(newCtrl.delegatedEvents).toBeInstanceOf(Set)
       expect(newCtrl.delegatedEvents.size).toBe(0)
     })
 
@@ -188,6 +208,21 @@ describe('useDelegation', () => {
       expect(handler).toHaveBeenCalledTimes(1) // No additional calls
     })
 
+    it('round-trips namespaced event types and pseudo-class selectors', () => {
+      const removeSpy = vi.spyOn(ctrl.element, 'removeEventListener')
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('my-lib:changed', 'button:not(.secondary)', handler)
+      ctrl.delegate('my-lib:changed', ':is(.btn, .clickable):hover', handler)
+
+      ctrl.undelegate('my-lib:changed', 'button:not(.secondary)')
+      expect(ctrl.delegatedEvents.size).toBe(1)
+      expect(removeSpy).not.toHaveBeenCalled()
+
+      ctrl.undelegate('my-lib:changed', ':is(.btn, .clickable):hover')
+      expect(ctrl.delegatedEvents.size).toBe(0)
+      expect(removeSpy).toHaveBeenCalledWith('my-lib:changed', expect.any(Function), { capture: false })
+    })
+
     it('only removes matching event/selector combination', () => {
       const clickHandler: DelegationHandler = vi.fn()
       const mouseoverHandler: DelegationHandler = vi.fn()
@@ -259,9 +294,9 @@ describe('useDelegation', () => {
       expect(result).toBe(ctrl)
     })
 
-    it('works with empty delegatedEvents map', () => {
-      // Initialize the map but keep it empty
-      ctrl.delegatedEvents = new Map()
+    it('works with empty delegatedEvents registry', () => {
+      // Initialize the registry but keep it empty
+      ctrl.delegatedEvents = new Set()
       expect(ctrl.delegatedEvents.size).toBe(0)
 
       const result = ctrl.undelegateAll()
@@ -270,27 +305,42 @@ describe('useDelegation', () => {
       expect(ctrl.delegatedEvents.size).toBe(0)
     })
 
-    it('correctly formats complex event types in keys', () => {
+    it('keeps complex event types and selectors in structured entries', () => {
       const handler: DelegationHandler = vi.fn()
 
-      // Use a complex event type that needs to be parsed correctly
-      ctrl.delegate('custom:event', '.btn', handler)
+      ctrl.delegate('custom:event', 'button:not(.secondary)', handler, { passive: true })
 
-      // Verify the event is registered
       expect(ctrl.delegatedEvents?.size).toBe(1)
 
-      // Get the key and verify it's correctly formatted
-      const key = Array.from(ctrl.delegatedEvents?.keys() || [])[0]
-      expect(key).toBe('custom:event:.btn')
+      const [delegation] = ctrl.delegatedEvents
+      expect(delegation).toEqual({
+        eventType: 'custom:event',
+        selector: 'button:not(.secondary)',
+        handler,
+        options: { passive: true },
+        listener: expect.any(Function),
+      })
     })
 
-    it('correctly splits complex event types when removing listeners', () => {
-      // This test verifies that the split operation in undelegateAll works correctly
-      // with complex event types
+    it('removes namespaced events on disconnect', () => {
+      const removeSpy = vi.spyOn(ctrl.element, 'removeEventListener')
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('turbo:submit-end', 'form', handler)
+      ctrl.delegate('my-lib:changed', '.nested', handler)
+
+      ctrl.disconnect()
+
+      expect(removeSpy).toHaveBeenCalledWith('turbo:submit-end', expect.any(Function), { capture: false })
+      expect(removeSpy).toHaveBeenCalledWith('my-lib:changed', expect.any(Function), { capture: false })
+
+      ctrl.element.querySelector('form')!.dispatchEvent(new CustomEvent('turbo:submit-end', { bubbles: true }))
+      expect(handler).not.toHaveBeenCalled()
+    })
 
-      // Create a mock controller with a mock element
+    it('removes the root listener of complex event types', () => {
       const mockCtrl = {
         element: {
+          addEventListener: vi.fn(),
           removeEventListener: vi.fn(),
         },
         disconnect: vi.fn(),
@@ -298,21 +348,14 @@ describe('useDelegation', () => {
 
       useDelegation(mockCtrl as any)
 
-      // Add a complex event type to the map
-      const mockHandler = vi.fn() as unknown as EventListener
-      mockCtrl.delegatedEvents.set('custom:event:.btn', mockHandler)
+      mockCtrl.delegate('custom:event', '.btn', vi.fn())
+      const [, rootListener] = vi.mocked(mockCtrl.element.addEventListener).mock.calls[0]
 
-      // Call undelegateAll
       mockCtrl.undelegateAll()
 
-      // Verify removeEventListener was called with the correct event type
-      // Note: The implementation splits at the first colon, so 'custom:event' becomes 'custom'
-      expect(mockCtrl.element.removeEventListener).toHaveBeenCalledWith(
-        'custom',
-        mockHandler,
-      )
-
-      // Verify the map was cleared
+      expect(mockCtrl.element.removeEventListener).toHaveBeenCalledWith('custom:event', rootListener, {
+        capture: false,
+      })
       expect(mockCtrl.delegatedEvents.size).toBe(0)
     })
   })
@@ -377,44 +420,2273 @@ describe('useDelegation', () => {
     })
   })
 
-  describe('integration patterns', () => {
-    it('works in typical Stimulus controller disconnect pattern', () => {
+  describe('root listeners', () => {
+    it('attaches a single listener per event type', () => {
+      const addSpy = vi.spyOn(ctrl.element, 'addEventListener')
+
+      ctrl.delegate('click', '.btn', vi.fn())
+      ctrl.delegate('click', '.clickable', vi.fn())
+      ctrl.delegate('click', 'form', vi.fn())
+      ctrl.delegate('mouseover', '.btn', vi.fn())
+
+      expect(addSpy).toHaveBeenCalledTimes(2)
+      expect(addSpy).toHaveBeenNthCalledWith(1, 'click', expect.any(Function), { capture: false, passive: false })
+      expect(addSpy).toHaveBeenNthCalledWith(2, 'mouseover', expect.any(Function), { capture: false, passive: false })
+    })
+
+    it('dispatches to every matching selector in registration order', () => {
+      const calls: string[] = []
+      ctrl.delegate('click', '.nested', () => calls.push('.nested'))
+      ctrl.delegate('click', '.clickable', () => calls.push('.clickable'))
+      ctrl.delegate('click', '.btn', () => calls.push('.btn'))
+
+      const span = ctrl.element.querySelector('.clickable') as HTMLElement
+      span.click()
+
+      expect(calls).toEqual(['.nested', '.clickable'])
+    })
+
+    it('stops dispatching to the next delegations when a handler stops immediate propagation', () => {
       const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.nested', (event) => event.stopImmediatePropagation())
+      ctrl.delegate('click', '.clickable', handler)
 
-      // Simulate controller connect
+      const span = ctrl.element.querySelector('.clickable') as HTMLElement
+      span.click()
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('does not run delegations removed by an earlier handler of the same event', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.nested', () => ctrl.undelegate('click', '.clickable'))
+      ctrl.delegate('click', '.clickable', handler)
+
+      const span = ctrl.element.querySelector('.clickable') as HTMLElement
+      span.click()
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('keeps the shared listener while other selectors still use it', () => {
+      const removeSpy = vi.spyOn(ctrl.element, 'removeEventListener')
+      const handler: DelegationHandler = vi.fn()
+
+      ctrl.delegate('click', '.btn', vi.fn())
+      ctrl.delegate('click', '.clickable', handler)
+      ctrl.undelegate('click', '.btn')
+
+      expect(removeSpy).not.toHaveBeenCalled()
+
+      const span = ctrl.element.querySelector('.clickable') as HTMLElement
+      span.click()
+      expect(handler).toHaveBeenCalledTimes(1)
+
+      ctrl.undelegate('click', '.clickable')
+      expect(removeSpy).toHaveBeenCalledTimes(1)
+      expect(removeSpy).toHaveBeenCalledWith('click', expect.any(Function), { capture: false })
+    })
+
+    it('matches the controller element itself', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.element.classList.add('root')
+      ctrl.delegate('click', '.root', handler)
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.click()
+
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), ctrl.element)
+    })
+  })
+
+  describe('options', () => {
+    it('runs capture delegations before bubbling ones', () => {
+      const calls: string[] = []
+      ctrl.delegate('click', '.btn', () => calls.push('bubble'))
+      ctrl.delegate('click', '.btn', () => calls.push('capture'), { capture: true })
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.addEventListener('click', () => calls.push('target'))
+      btn.click()
+
+      expect(calls).toEqual(['capture', 'target', 'bubble'])
+    })
+
+    it('keeps capture and bubble delegations for the same selector side by side', () => {
+      const bubbleHandler: DelegationHandler = vi.fn()
+      const captureHandler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', bubbleHandler)
+      ctrl.delegate('click', '.btn', captureHandler, { capture: true })
+
+      expect(ctrl.delegatedEvents.size).toBe(2)
+
+      ctrl.undelegate('click', '.btn', { capture: true })
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.click()
+
+      expect(captureHandler).not.toHaveBeenCalled()
+      expect(bubbleHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it('accepts a boolean capture flag in undelegate', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', handler, { capture: true })
+      ctrl.undelegate('click', '.btn', true)
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.click()
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(ctrl.delegatedEvents.size).toBe(0)
+    })
+
+    it('attaches a separate passive root listener', () => {
+      const addSpy = vi.spyOn(ctrl.element, 'addEventListener')
+
+      ctrl.delegate('wheel', '.btn', vi.fn())
+      ctrl.delegate('wheel', '.nested', vi.fn(), { passive: true })
+      ctrl.delegate('wheel', 'form', vi.fn(), { passive: true })
+
+      expect(addSpy).toHaveBeenCalledTimes(2)
+      expect(addSpy).toHaveBeenNthCalledWith(2, 'wheel', expect.any(Function), { capture: false, passive: true })
+    })
+
+    it('runs a once delegation a single time overall', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', handler, { once: true })
+
+      const [saveBtn, cancelBtn] = ctrl.element.querySelectorAll<HTMLElement>('.btn')
+      saveBtn.click()
+      cancelBtn.click()
+      saveBtn.click()
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(ctrl.delegatedEvents.size).toBe(0)
+    })
+
+    it('runs a once-per-target delegation a single time for each matched target', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', handler, { once: 'target' })
+
+      const [saveBtn, cancelBtn] = ctrl.element.querySelectorAll<HTMLElement>('.btn')
+      saveBtn.click()
+      saveBtn.click()
+      cancelBtn.click()
+      cancelBtn.click()
+
+      expect(handler).toHaveBeenCalledTimes(2)
+      expect(handler).toHaveBeenNthCalledWith(1, expect.any(MouseEvent), saveBtn)
+      expect(handler).toHaveBeenNthCalledWith(2, expect.any(MouseEvent), cancelBtn)
+      expect(ctrl.delegatedEvents.size).toBe(1)
+    })
+
+    it('removes the delegation when its signal is aborted', () => {
+      const abortController = new AbortController()
+      const handler: DelegationHandler = vi.fn()
+      const removeSpy = vi.spyOn(ctrl.element, 'removeEventListener')
+      ctrl.delegate('click', '.btn', handler, { signal: abortController.signal })
+
+      abortController.abort()
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.click()
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(ctrl.delegatedEvents.size).toBe(0)
+      expect(removeSpy).toHaveBeenCalledWith('click', expect.any(Function), { capture: false })
+    })
+
+    it('does not register a delegation with an already aborted signal', () => {
+      const addSpy = vi.spyOn(ctrl.element, 'addEventListener')
+      ctrl.delegate('click', '.btn', vi.fn(), { signal: AbortSignal.abort() })
+
+      expect(ctrl.delegatedEvents.size).toBe(0)
+      expect(addSpy).not.toHaveBeenCalled()
+    })
+
+    it('keeps the existing handler when delegating with an already aborted signal', () => {
+      const handler: DelegationHandler = vi.fn()
       ctrl.delegate('click', '.btn', handler)
+      ctrl.delegate('click', '.btn', vi.fn(), { signal: AbortSignal.abort() })
 
       const btn = ctrl.element.querySelector('.btn') as HTMLElement
       btn.click()
+
       expect(handler).toHaveBeenCalledTimes(1)
+    })
 
-      // Simulate controller disconnect
-      ctrl.disconnect()
+    it('ignores the abort of a signal whose delegation was replaced', () => {
+      const abortController = new AbortController()
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', vi.fn(), { signal: abortController.signal })
+      ctrl.delegate('click', '.btn', handler)
+
+      abortController.abort()
 
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
       btn.click()
-      expect(handler).toHaveBeenCalledTimes(1) // No additional calls
+
+      expect(handler).toHaveBeenCalledTimes(1)
     })
 
-    it('calls the original disconnect method when patched', () => {
-      const newCtrl = new TestController()
-      const disconnectSpy = vi.spyOn(newCtrl, 'disconnect')
-      useDelegation(newCtrl)
+    it('stops listening to the signal once the delegation is removed', () => {
+      const abortController = new AbortController()
+      const removeSpy = vi.spyOn(abortController.signal, 'removeEventListener')
+      ctrl.delegate('click', '.btn', vi.fn(), { signal: abortController.signal })
+      ctrl.delegate('click', 'form', vi.fn(), { signal: abortController.signal })
 
-      newCtrl.disconnect()
+      ctrl.undelegate('click', '.btn')
+      expect(removeSpy).toHaveBeenCalledTimes(1)
 
-      expect(disconnectSpy).toHaveBeenCalledTimes(1)
+      ctrl.undelegateAll()
+      expect(removeSpy).toHaveBeenCalledTimes(2)
+      expect(removeSpy).toHaveBeenCalledWith('abort', expect.any(Function))
     })
 
-    it('supports method chaining for multiple delegations', () => {
-      const clickHandler: DelegationHandler = vi.fn()
-      const mouseoverHandler: DelegationHandler = vi.fn()
+    it('removes capture root listeners in undelegateAll', () => {
+      const removeSpy = vi.spyOn(ctrl.element, 'removeEventListener')
+      ctrl.delegate('click', '.btn', vi.fn(), { capture: true })
+      ctrl.delegate('click', '.btn', vi.fn())
 
-      const result = ctrl
-        .delegate('click', '.btn', clickHandler)
-        .delegate('mouseover', '.btn', mouseoverHandler)
+      ctrl.undelegateAll()
 
-      expect(result).toBe(ctrl)
-      expect(ctrl.delegatedEvents?.size).toBe(2)
+      expect(removeSpy).toHaveBeenCalledTimes(2)
+      expect(removeSpy).toHaveBeenCalledWith('click', expect.any(Function), { capture: true })
+      expect(removeSpy).toHaveBeenCalledWith('click', expect.any(Function), { capture: false })
+    })
+  })
+
+  describe('multiple handlers', () => {
+    it('runs additive handlers for the same event/selector in registration order', () => {
+      const calls: string[] = []
+      ctrl.delegate('click', '.btn', () => calls.push('controller'))
+      ctrl.delegate('click', '.btn', () => calls.push('mixin'), { additive: true })
+      ctrl.delegate('click', '.btn', () => calls.push('plugin'), { additive: true })
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.click()
+
+      expect(calls).toEqual(['controller', 'mixin', 'plugin'])
+      expect(ctrl.delegatedEvents.size).toBe(3)
+    })
+
+    it('replaces every handler of the key when not additive', () => {
+      const firstHandler: DelegationHandler = vi.fn()
+      const secondHandler: DelegationHandler = vi.fn()
+      const thirdHandler: DelegationHandler = vi.fn()
+
+      ctrl.delegate('click', '.btn', firstHandler)
+      ctrl.delegate('click', '.btn', secondHandler, { additive: true })
+      ctrl.delegate('click', '.btn', thirdHandler)
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.click()
+
+      expect(firstHandler).not.toHaveBeenCalled()
+      expect(secondHandler).not.toHaveBeenCalled()
+      expect(thirdHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it('does not register the same additive handler twice', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', handler, { additive: true })
+      ctrl.delegate('click', '.btn', handler, { additive: true })
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.click()
+
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it('removes only the given handler', () => {
+      const firstHandler: DelegationHandler = vi.fn()
+      const secondHandler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', firstHandler)
+      ctrl.delegate('click', '.btn', secondHandler, { additive: true })
+
+      ctrl.undelegate('click', '.btn', firstHandler)
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.click()
+
+      expect(firstHandler).not.toHaveBeenCalled()
+      expect(secondHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it('removes a given capture handler', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', handler, { capture: true })
+      ctrl.undelegate('click', '.btn', handler)
+
+      expect(ctrl.delegatedEvents.size).toBe(1)
+
+      ctrl.undelegate('click', '.btn', handler, { capture: true })
+
+      expect(ctrl.delegatedEvents.size).toBe(0)
+    })
+
+    it('removes every handler of the key without a handler reference', () => {
+      const removeSpy = vi.spyOn(ctrl.element, 'removeEventListener')
+      ctrl.delegate('click', '.btn', vi.fn())
+      ctrl.delegate('click', '.btn', vi.fn(), { additive: true })
+
+      ctrl.undelegate('click', '.btn')
+
+      expect(ctrl.delegatedEvents.size).toBe(0)
+      expect(removeSpy).toHaveBeenCalledTimes(1)
+    })
+
+    it('keeps the other handlers when a once handler has run', () => {
+      const onceHandler: DelegationHandler = vi.fn()
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', onceHandler, { once: true })
+      ctrl.delegate('click', '.btn', handler, { additive: true })
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.click()
+      btn.click()
+
+      expect(onceHandler).toHaveBeenCalledTimes(1)
+      expect(handler).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('non-bubbling events', () => {
+    it('delegates focus and blur during the capture phase', () => {
+      const focusHandler: DelegationHandler = vi.fn()
+      const blurHandler: DelegationHandler = vi.fn()
+      ctrl.delegate('focus', 'input[type="text"]', focusHandler)
+      ctrl.delegate('blur', 'input[type="text"]', blurHandler)
+
+      const input = ctrl.element.querySelector('input[type="text"]') as HTMLInputElement
+      input.dispatchEvent(new FocusEvent('focus'))
+      input.dispatchEvent(new FocusEvent('blur'))
+
+      expect(focusHandler).toHaveBeenCalledTimes(1)
+      expect(focusHandler).toHaveBeenCalledWith(expect.objectContaining({ type: 'focus' }), input)
+      expect(blurHandler).toHaveBeenCalledTimes(1)
+      expect(blurHandler).toHaveBeenCalledWith(expect.objectContaining({ type: 'blur' }), input)
+    })
+
+    it('ignores focus on non-matching elements', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('focus', 'input[type="text"]', handler)
+
+      const input = ctrl.element.querySelector('input[type="email"]') as HTMLInputElement
+      input.dispatchEvent(new FocusEvent('focus'))
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('synthesizes mouseenter from mouseover', () => {
+      const handler = vi.fn()
+      ctrl.delegate('mouseenter', '.nested', handler)
+
+      const nested = ctrl.element.querySelector('.nested') as HTMLElement
+      const span = nested.querySelector('span') as HTMLElement
+      span.dispatchEvent(new MouseEvent('mouseover', { bubbles: true, relatedTarget: document.body, clientX: 12 }))
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      const [event, target] = handler.mock.calls[0]
+      expect(target).toBe(nested)
+      expect(event).toBeInstanceOf(MouseEvent)
+      expect(event.type).toBe('mouseenter')
+      expect(event.target).toBe(nested)
+      expect(event.relatedTarget).toBe(document.body)
+      expect(event.clientX).toBe(12)
+    })
+
+    it('does not fire mouseenter when moving inside the matched target', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('mouseenter', '.nested', handler)
+
+      const nested = ctrl.element.querySelector('.nested') as HTMLElement
+      const span = nested.querySelector('span') as HTMLElement
+      span.dispatchEvent(new MouseEvent('mouseover', { bubbles: true, relatedTarget: nested }))
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('synthesizes mouseleave from mouseout', () => {
+      const handler = vi.fn()
+      ctrl.delegate('mouseleave', '.nested', handler)
+
+      const nested = ctrl.element.querySelector('.nested') as HTMLElement
+      const span = nested.querySelector('span') as HTMLElement
+      span.dispatchEvent(new MouseEvent('mouseout', { bubbles: true, relatedTarget: nested }))
+      expect(handler).not.toHaveBeenCalled()
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      span.dispatchEvent(new MouseEvent('mouseout', { bubbles: true, relatedTarget: btn }))
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler.mock.calls[0][0].type).toBe('mouseleave')
+      expect(handler.mock.calls[0][1]).toBe(nested)
+    })
+
+    it('shares the mouseover root listener and removes it on undelegate', () => {
+      const addSpy = vi.spyOn(ctrl.element, 'addEventListener')
+      const removeSpy = vi.spyOn(ctrl.element, 'removeEventListener')
+      const overHandler: DelegationHandler = vi.fn()
+      ctrl.delegate('mouseover', '.btn', overHandler)
+      ctrl.delegate('mouseenter', '.btn', vi.fn())
+
+      expect(addSpy).toHaveBeenCalledTimes(1)
+      expect(addSpy).toHaveBeenCalledWith('mouseover', expect.any(Function), { capture: false, passive: false })
+
+      ctrl.undelegate('mouseenter', '.btn')
+      expect(removeSpy).not.toHaveBeenCalled()
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.dispatchEvent(new MouseEvent('mouseover', { bubbles: true }))
+      expect(overHandler).toHaveBeenCalledTimes(1)
+      expect(overHandler).toHaveBeenCalledWith(expect.objectContaining({ type: 'mouseover' }), btn)
+
+      ctrl.undelegate('mouseover', '.btn')
+      expect(removeSpy).toHaveBeenCalledWith('mouseover', expect.any(Function), { capture: false })
+    })
+  })
+
+  describe('declarative delegations', () => {
+    class DeclarativeController extends TestController {
+      static delegations: Delegations = {
+        'click->.btn': 'save',
+        'input->input[type=text]': 'filter',
+      }
+
+      identifier = 'list'
+      save = vi.fn()
+      filter = vi.fn()
+      toggle = vi.fn()
+    }
+
+    function createDeclarativeController(attribute?: string) {
+      const declarative = new DeclarativeController()
+      if (attribute) declarative.element.setAttribute('data-list-delegate', attribute)
+      document.body.appendChild(declarative.element)
+      useDelegation(declarative)
+      return declarative
+    }
+
+    it('registers the static delegations of the controller class', () => {
+      const declarative = createDeclarativeController()
+
+      const btn = declarative.element.querySelector('.btn') as HTMLElement
+      const input = declarative.element.querySelector('input[type=text]') as HTMLElement
+      btn.click()
+      input.dispatchEvent(new Event('input', { bubbles: true }))
+
+      expect(declarative.save).toHaveBeenCalledWith(expect.any(MouseEvent), btn)
+      expect(declarative.save.mock.contexts[0]).toBe(declarative)
+      expect(declarative.filter).toHaveBeenCalledWith(expect.any(Event), input)
+    })
+
+    it('registers the delegations of the data attribute', () => {
+      const declarative = createDeclarativeController('click->.nested#toggle  mouseover->#main.btn#save')
+      declarative.element.querySelector('.btn')!.id = 'main'
+
+      const span = declarative.element.querySelector('.nested span') as HTMLElement
+      const btn = declarative.element.querySelector('.btn') as HTMLElement
+      span.click()
+      btn.dispatchEvent(new MouseEvent('mouseover', { bubbles: true }))
+
+      expect(declarative.toggle).toHaveBeenCalledWith(expect.any(MouseEvent), span.parentElement)
+      expect(declarative.save).toHaveBeenCalledWith(expect.objectContaining({ type: 'mouseover' }), btn)
     })
+
+    it('runs attribute and static delegations of the same event/selector together', () => {
+      const declarative = createDeclarativeController('click->.btn#toggle')
+
+      const btn = declarative.element.querySelector('.btn') as HTMLElement
+      btn.click()
+
+      expect(declarative.save).toHaveBeenCalledTimes(1)
+      expect(declarative.toggle).toHaveBeenCalledTimes(1)
+    })
+
+    it('binds the declarative delegations again on reconnect', () => {
+      const declarative = createDeclarativeController()
+      const btn = declarative.element.querySelector('.btn') as HTMLElement
+
+      declarative.disconnect()
+      btn.click()
+      expect(declarative.save).not.toHaveBeenCalled()
+
+      declarative.connect()
+      declarative.connect()
+      btn.click()
+      expect(declarative.save).toHaveBeenCalledTimes(1)
+    })
+
+    it('calls the original connect method', () => {
+      const declarative = new DeclarativeController()
+      const connectSpy = vi.spyOn(declarative, 'connect')
+      useDelegation(declarative)
+
+      declarative.connect()
+
+      expect(connectSpy).toHaveBeenCalledTimes(1)
+    })
+
+    it('throws on undefined methods', () => {
+      expect(() => createDeclarativeController('click->.btn#missing')).toThrow(
+        'Delegation references undefined method "missing" on list controller',
+      )
+    })
+
+    it('throws on invalid descriptors', () => {
+      expect(() => createDeclarativeController('click.btn#save')).toThrow(
+        'Invalid delegation descriptor "click.btn#save" on list controller',
+      )
+    })
+  })
+
+  describe('nested controller scoping', () => {
+    class ListController extends TestController {
+      identifier = 'list'
+
+      constructor() {
+        super()
+        this.element.setAttribute('data-controller', 'list')
+        this.element.innerHTML = `
+          <button class="item" id="outer-item">Outer</button>
+          <div data-controller="sortable list" class="item" id="inner-list">
+            <button class="item" id="inner-item">Inner</button>
+          </div>
+        `
+      }
+    }
+
+    let list: ListController
+
+    beforeEach(() => {
+      list = new ListController()
+      document.body.appendChild(list.element)
+      useDelegation(list)
+    })
+
+    it('ignores targets owned by a nested instance of the controller', () => {
+      const handler: DelegationHandler = vi.fn()
+      list.delegate('click', '.item', handler, { scoped: true })
+
+      list.element.querySelector<HTMLElement>('#inner-item')!.click()
+      list.element.querySelector<HTMLElement>('#inner-list')!.click()
+      expect(handler).not.toHaveBeenCalled()
+
+      const outerItem = list.element.querySelector<HTMLElement>('#outer-item')!
+      outerItem.click()
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), outerItem)
+    })
+
+    it('matches targets above the nested instance', () => {
+      const handler: DelegationHandler = vi.fn()
+      list.element.classList.add('list')
+      list.delegate('click', '.list', handler, { scoped: true })
+
+      list.element.querySelector<HTMLElement>('#inner-item')!.click()
+
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), list.element)
+    })
+
+    it('matches targets of nested instances when not scoped', () => {
+      const handler: DelegationHandler = vi.fn()
+      list.delegate('click', '.item', handler)
+
+      const innerItem = list.element.querySelector<HTMLElement>('#inner-item')!
+      innerItem.click()
+
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), innerItem)
+    })
+
+    it('ignores other controllers', () => {
+      const handler: DelegationHandler = vi.fn()
+      list.element.querySelector('#inner-list')!.setAttribute('data-controller', 'sortable')
+      list.delegate('click', '.item', handler, { scoped: true })
+
+      const innerItem = list.element.querySelector<HTMLElement>('#inner-item')!
+      innerItem.click()
+
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), innerItem)
+    })
+  })
+
+  describe('shadow DOM', () => {
+    let host: HTMLElement
+    let shadowButton: HTMLElement
+
+    beforeEach(() => {
+      host = document.createElement('div')
+      host.className = 'host'
+      const shadowRoot = host.attachShadow({ mode: 'open' })
+      shadowRoot.innerHTML = '<button class="inner-btn"><span>Shadow</span></button>'
+      shadowButton = shadowRoot.querySelector('.inner-btn') as HTMLElement
+      ctrl.element.appendChild(host)
+    })
+
+    it('matches elements inside open shadow roots in composed mode', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.inner-btn', handler, { composed: true })
+
+      shadowButton.querySelector('span')!.dispatchEvent(new MouseEvent('click', { bubbles: true, composed: true }))
+
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), shadowButton)
+    })
+
+    it('does not cross shadow boundaries by default', () => {
+      const innerHandler: DelegationHandler = vi.fn()
+      const hostHandler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.inner-btn', innerHandler)
+      ctrl.delegate('click', '.host', hostHandler)
+
+      shadowButton.dispatchEvent(new MouseEvent('click', { bubbles: true, composed: true }))
+
+      expect(innerHandler).not.toHaveBeenCalled()
+      expect(hostHandler).toHaveBeenCalledWith(expect.any(MouseEvent), host)
+    })
+
+    it('still matches light DOM elements in composed mode', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.host', handler, { composed: true })
+
+      shadowButton.dispatchEvent(new MouseEvent('click', { bubbles: true, composed: true }))
+
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), host)
+    })
+
+    it('ignores composed events from outside the controller element', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', 'button', handler, { composed: true })
+
+      const externalBtn = document.createElement('button')
+      document.body.appendChild(externalBtn)
+      externalBtn.click()
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('key and modifier filters', () => {
+    let input: HTMLInputElement
+
+    beforeEach(() => {
+      input = ctrl.element.querySelector('input[type="text"]') as HTMLInputElement
+    })
+
+    function keydown(key: string, init: KeyboardEventInit = {}) {
+      input.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, ...init }))
+    }
+
+    it('filters keyboard events by key name', () => {
+      const enterHandler: DelegationHandler = vi.fn()
+      const escHandler: DelegationHandler = vi.fn()
+      ctrl.delegate('keydown.enter', 'input', enterHandler)
+      ctrl.delegate('keydown.esc', 'input', escHandler)
+
+      keydown('a')
+      keydown('Enter')
+
+      expect(enterHandler).toHaveBeenCalledTimes(1)
+      expect(enterHandler).toHaveBeenCalledWith(expect.any(KeyboardEvent), input)
+      expect(escHandler).not.toHaveBeenCalled()
+
+      keydown('Escape')
+      expect(escHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it('requires the exact modifiers', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('keydown.ctrl+s', 'input', handler)
+
+      keydown('s')
+      keydown('s', { ctrlKey: true, shiftKey: true })
+      expect(handler).not.toHaveBeenCalled()
+
+      keydown('s', { ctrlKey: true })
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it('filters mouse events by modifiers', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click.meta+shift', '.btn', handler)
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.dispatchEvent(new MouseEvent('click', { bubbles: true, metaKey: true }))
+      expect(handler).not.toHaveBeenCalled()
+
+      btn.dispatchEvent(new MouseEvent('click', { bubbles: true, metaKey: true, shiftKey: true }))
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), btn)
+    })
+
+    it('shares the root listener of the unfiltered event type', () => {
+      const addSpy = vi.spyOn(ctrl.element, 'addEventListener')
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('keydown', 'input', handler)
+      ctrl.delegate('keydown.enter', 'input', vi.fn())
+
+      expect(addSpy).toHaveBeenCalledTimes(1)
+      expect(addSpy).toHaveBeenCalledWith('keydown', expect.any(Function), { capture: false, passive: false })
+
+      keydown('a')
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it('undelegates by descriptor', () => {
+      const enterHandler: DelegationHandler = vi.fn()
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('keydown.enter', 'input', enterHandler)
+      ctrl.delegate('keydown', 'input', handler)
+
+      ctrl.undelegate('keydown.enter', 'input')
+      keydown('Enter')
+
+      expect(enterHandler).not.toHaveBeenCalled()
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it('keeps dotted event types that are not filters', () => {
+      const addSpy = vi.spyOn(ctrl.element, 'addEventListener')
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('show.bs.modal', '.nested', handler)
+
+      expect(addSpy).toHaveBeenCalledWith('show.bs.modal', expect.any(Function), { capture: false, passive: false })
+
+      const span = ctrl.element.querySelector('.clickable') as HTMLElement
+      span.dispatchEvent(new Event('show.bs.modal', { bubbles: true }))
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it('throws on unknown key filters', () => {
+      expect(() => ctrl.delegate('keydown.entr', 'input', vi.fn())).toThrow('Unknown key filter "entr" in "keydown.entr"')
+    })
+
+    it('supports filters in declarative delegations', () => {
+      class ShortcutController extends TestController {
+        identifier = 'shortcut'
+        save = vi.fn()
+      }
+
+      const shortcut = new ShortcutController()
+      shortcut.element.setAttribute('data-shortcut-delegate', 'keydown.ctrl+s->input#save')
+      useDelegation(shortcut)
+
+      const shortcutInput = shortcut.element.querySelector('input') as HTMLInputElement
+      shortcutInput.dispatchEvent(new KeyboardEvent('keydown', { key: 's', bubbles: true }))
+      shortcutInput.dispatchEvent(new KeyboardEvent('keydown', { key: 's', ctrlKey: true, bubbles: true }))
+
+      expect(shortcut.save).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('scheduling', () => {
+    let input: HTMLInputElement
+    let emailInput: HTMLInputElement
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      input = ctrl.element.querySelector('input[type="text"]') as HTMLInputElement
+      emailInput = ctrl.element.querySelector('input[type="email"]') as HTMLInputElement
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    function type(target: HTMLInputElement, value: string) {
+      target.value = value
+      target.dispatchEvent(new Event('input', { bubbles: true }))
+    }
+
+    it('debounces the handler per matched target', () => {
+      const handler = vi.fn()
+      ctrl.delegate('input', 'input', handler, { debounce: 100 })
+
+      type(input, 'a')
+      type(emailInput, 'x')
+      vi.advanceTimersByTime(50)
+      type(input, 'ab')
+      vi.advanceTimersByTime(99)
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler).toHaveBeenLastCalledWith(expect.any(Event), emailInput)
+
+      vi.advanceTimersByTime(1)
+      expect(handler).toHaveBeenCalledTimes(2)
+      expect(handler).toHaveBeenLastCalledWith(expect.any(Event), input)
+      expect(handler.mock.contexts[1]).toBe(ctrl)
+    })
+
+    it('throttles the handler with leading and trailing calls', () => {
+      const handler = vi.fn()
+      ctrl.delegate('input', 'input', handler, { throttle: 100 })
+
+      type(input, 'a')
+      expect(handler).toHaveBeenCalledTimes(1)
+
+      type(input, 'ab')
+      const latest = new Event('input', { bubbles: true })
+      input.dispatchEvent(latest)
+      expect(handler).toHaveBeenCalledTimes(1)
+
+      vi.advanceTimersByTime(100)
+      expect(handler).toHaveBeenCalledTimes(2)
+      expect(handler).toHaveBeenLastCalledWith(latest, input)
+
+      vi.advanceTimersByTime(100)
+      expect(handler).toHaveBeenCalledTimes(2)
+
+      type(input, 'abc')
+      expect(handler).toHaveBeenCalledTimes(3)
+    })
+
+    it('coalesces the handler per animation frame with the latest event', () => {
+      const handler = vi.fn()
+      ctrl.delegate('mousemove', '.btn', handler, { frame: true })
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.dispatchEvent(new MouseEvent('mousemove', { bubbles: true, clientX: 1 }))
+      btn.dispatchEvent(new MouseEvent('mousemove', { bubbles: true, clientX: 2 }))
+      expect(handler).not.toHaveBeenCalled()
+
+      vi.advanceTimersToNextFrame()
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler.mock.calls[0][0].clientX).toBe(2)
+    })
+
+    it('cancels pending calls on undelegate', () => {
+      const handler = vi.fn()
+      ctrl.delegate('input', 'input', handler, { debounce: 100 })
+
+      type(input, 'a')
+      ctrl.undelegate('input', 'input')
+      vi.runAllTimers()
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(vi.getTimerCount()).toBe(0)
+    })
+
+    it('cancels pending calls on disconnect', () => {
+      const debounced = vi.fn()
+      const throttled = vi.fn()
+      const framed = vi.fn()
+      ctrl.delegate('input', 'input', debounced, { debounce: 100 })
+      ctrl.delegate('input', 'form', throttled, { throttle: 100 })
+      ctrl.delegate('mousemove', '.btn', framed, { frame: true })
+
+      type(input, 'a')
+      type(input, 'ab')
+      ctrl.element.querySelector('.btn')!.dispatchEvent(new MouseEvent('mousemove', { bubbles: true }))
+      ctrl.disconnect()
+      vi.runAllTimers()
+
+      expect(debounced).not.toHaveBeenCalled()
+      expect(throttled).toHaveBeenCalledTimes(1)
+      expect(framed).not.toHaveBeenCalled()
+      expect(vi.getTimerCount()).toBe(0)
+    })
+
+    it('cancels pending calls of a replaced handler', () => {
+      const handler = vi.fn()
+      ctrl.delegate('input', 'input', handler, { debounce: 100 })
+
+      type(input, 'a')
+      ctrl.delegate('input', 'input', vi.fn())
+      vi.runAllTimers()
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('counts once delegations when the handler actually runs', () => {
+      const handler = vi.fn()
+      ctrl.delegate('input', 'input', handler, { debounce: 100, once: true })
+
+      type(input, 'a')
+      type(input, 'ab')
+      vi.advanceTimersByTime(100)
+      type(input, 'abc')
+      vi.runAllTimers()
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(ctrl.delegatedEvents.size).toBe(0)
+    })
+  })
+
+  describe('delegated targets', () => {
+    class TodoController extends TestController {
+      identifier = 'todo'
+
+      constructor() {
+        super()
+        this.element.innerHTML = `
+          <li data-todo-target="item"><span>First</span></li>
+          <li data-todo-target="done item">Second</li>
+          <li data-target="todo.item">Legacy</li>
+          <li data-other-target="item">Other controller</li>
+        `
+      }
+    }
+
+    let todo: TodoController
+    let items: HTMLElement[]
+
+    beforeEach(() => {
+      todo = new TodoController()
+      document.body.appendChild(todo.element)
+      useDelegation(todo)
+      items = Array.from(todo.element.querySelectorAll('li'))
+    })
+
+    it('matches targets by name', () => {
+      const handler: DelegationHandler = vi.fn()
+      todo.delegateTarget('click', 'item', handler)
+
+      items[0].querySelector('span')!.click()
+      items[1].click()
+      items[3].click()
+
+      expect(handler).toHaveBeenCalledTimes(2)
+      expect(handler).toHaveBeenNthCalledWith(1, expect.any(MouseEvent), items[0])
+      expect(handler).toHaveBeenNthCalledWith(2, expect.any(MouseEvent), items[1])
+    })
+
+    it('matches legacy target attributes', () => {
+      const handler: DelegationHandler = vi.fn()
+      todo.delegateTarget('click', 'item', handler)
+
+      items[2].click()
+
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), items[2])
+    })
+
+    it('uses the target attributes of the application schema', () => {
+      const handler: DelegationHandler = vi.fn()
+      Object.assign(todo, {
+        application: {
+          schema: { ...defaultSchema, targetAttribute: '', targetAttributeForScope: (id: string) => `data-x-${id}` },
+        },
+      })
+      items[0].setAttribute('data-x-todo', 'item')
+
+      todo.delegateTarget('click', 'item', handler)
+      items[0].click()
+      items[1].click()
+      items[2].click()
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), items[0])
+    })
+
+    it('undelegates by target name', () => {
+      const handler: DelegationHandler = vi.fn()
+      const doneHandler: DelegationHandler = vi.fn()
+      todo.delegateTarget('click', 'item', handler)
+      todo.delegateTarget('click', 'done', doneHandler)
+
+      todo.undelegateTarget('click', 'item')
+      items[1].click()
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(doneHandler).toHaveBeenCalledTimes(1)
+
+      todo.undelegateTarget('click', 'done', doneHandler)
+      expect(todo.delegatedEvents.size).toBe(0)
+    })
+
+    it('requires a controller identifier', () => {
+      expect(() => ctrl.delegateTarget('click', 'item', vi.fn())).toThrow(
+        'Cannot delegate to "item" targets without a controller identifier',
+      )
+    })
+  })
+
+  describe('type inference', () => {
+    it('infers the element type of compound selectors starting with a tag name', () => {
+      expectTypeOf<DelegatedElement<'input[type=text]'>>().toEqualTypeOf<HTMLInputElement>()
+      expectTypeOf<DelegatedElement<'tr.row'>>().toEqualTypeOf<HTMLTableRowElement>()
+      expectTypeOf<DelegatedElement<'.btn'>>().toEqualTypeOf<Element>()
+    })
+
+    it('falls back to Element for selectors with combinators or lists', () => {
+      expectTypeOf<DelegatedElement<'tr.row td'>>().toEqualTypeOf<Element>()
+      expectTypeOf<DelegatedElement<'input[type=text] + label'>>().toEqualTypeOf<Element>()
+      expectTypeOf<DelegatedElement<'ul>li'>>().toEqualTypeOf<Element>()
+      expectTypeOf<DelegatedElement<'h1 ~ p'>>().toEqualTypeOf<Element>()
+      expectTypeOf<DelegatedElement<'input, select'>>().toEqualTypeOf<Element>()
+    })
+  })
+
+  describe('withDelegation', () => {
+    class BaseController {
+      element = document.createElement('div')
+      disconnected = false
+
+      constructor() {
+        this.element.innerHTML = '<input type="text" class="field" />'
+      }
+
+      connect(): void {}
+      disconnect(): void {
+        this.disconnected = true
+      }
+    }
+
+    const DelegatingController = withDelegation(BaseController as any)
+
+    it('adds the delegation methods to the controller class', () => {
+      const handler = vi.fn()
+      const delegating = new DelegatingController()
+      delegating.delegate('input', 'input[type=text]', handler)
+
+      const input = delegating.element.querySelector('input') as HTMLInputElement
+      input.dispatchEvent(new Event('input', { bubbles: true }))
+
+      expect(handler).toHaveBeenCalledWith(expect.any(Event), input)
+      expect(handler.mock.contexts[0]).toBe(delegating)
+    })
+
+    it('keeps the subclass methods and cleans up on disconnect', () => {
+      const handler = vi.fn()
+
+      class FieldController extends DelegatingController {
+        connect() {
+          this.delegate('input', '.field', this.handleInput)
+        }
+
+        handleInput(event: Event, target: HTMLInputElement) {
+          handler(event, target)
+        }
+      }
+
+      const field = new FieldController()
+      field.connect()
+      field.disconnect()
+
+      field.element.querySelector('input')!.dispatchEvent(new Event('input', { bubbles: true }))
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(field.delegatedEvents.size).toBe(0)
+      expect((field as unknown as BaseController).disconnected).toBe(true)
+    })
+  })
+
+  describe('inspection and debugging', () => {
+    it('lists active delegations with their hit count', () => {
+      ctrl.delegate('click', '.btn', ctrl.handleClick, { capture: true })
+      ctrl.delegate('keydown.enter', 'input', () => {})
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.click()
+      btn.click()
+
+      expect(ctrl.inspectDelegations()).toEqual([
+        { eventType: 'click', selector: '.btn', options: { capture: true }, handler: 'spy', hits: 2, paused: false },
+        { eventType: 'keydown.enter', selector: 'input', options: {}, handler: 'anonymous', hits: 0, paused: false },
+      ])
+    })
+
+    it('names handlers after their function', () => {
+      function handleSave() {}
+      ctrl.delegate('click', '.btn', handleSave)
+
+      expect(ctrl.inspectDelegations()[0].handler).toBe('handleSave')
+    })
+
+    describe('debug mode', () => {
+      function createDebugController(debug: boolean, options = { debug: true }) {
+        const debugCtrl = new TestController()
+        const application = { debug, schema: defaultSchema, logDebugActivity: vi.fn() }
+        Object.assign(debugCtrl, { identifier: 'table', application })
+        useDelegation(debugCtrl, options)
+        return { debugCtrl, application }
+      }
+
+      it('logs matched and missed delegations while application.debug is enabled', () => {
+        const { debugCtrl, application } = createDebugController(true)
+        function handleSave() {}
+        debugCtrl.delegate('click', '.btn', handleSave)
+        debugCtrl.delegate('click', 'form', handleSave)
+
+        const btn = debugCtrl.element.querySelector('.btn') as HTMLElement
+        btn.click()
+
+        expect(application.logDebugActivity).toHaveBeenCalledTimes(2)
+        expect(application.logDebugActivity).toHaveBeenNthCalledWith(1, 'table', 'delegate', {
+          event: expect.any(MouseEvent),
+          selector: '.btn',
+          matched: true,
+          target: btn,
+          handler: 'handleSave',
+        })
+        expect(application.logDebugActivity).toHaveBeenNthCalledWith(2, 'table', 'delegate', {
+          event: expect.any(MouseEvent),
+          selector: 'form',
+          matched: false,
+          target: null,
+          handler: 'handleSave',
+        })
+      })
+
+      it('does not log while application.debug is disabled', () => {
+        const { debugCtrl, application } = createDebugController(false)
+        debugCtrl.delegate('click', '.btn', vi.fn())
+
+        debugCtrl.element.querySelector<HTMLElement>('.btn')!.click()
+
+        expect(application.logDebugActivity).not.toHaveBeenCalled()
+      })
+
+      it('starts logging when application.debug is enabled later', () => {
+        const { debugCtrl, application } = createDebugController(false)
+        debugCtrl.delegate('click', '.btn', vi.fn())
+        const btn = debugCtrl.element.querySelector<HTMLElement>('.btn')!
+
+        btn.click()
+        application.debug = true
+        btn.click()
+
+        expect(application.logDebugActivity).toHaveBeenCalledTimes(1)
+      })
+
+      it('does not log without the debug option', () => {
+        const { debugCtrl, application } = createDebugController(true, { debug: false })
+        debugCtrl.delegate('click', '.btn', vi.fn())
+
+        debugCtrl.element.querySelector<HTMLElement>('.btn')!.click()
+
+        expect(application.logDebugActivity).not.toHaveBeenCalled()
+      })
+    })
+  })
+
+  describe('error handling', () => {
+    it('routes handler errors to the application error handler', () => {
+      const errorCtrl = new TestController()
+      const application = { schema: defaultSchema, handleError: vi.fn() }
+      Object.assign(errorCtrl, { identifier: 'table', application })
+      useDelegation(errorCtrl)
+
+      const error = new Error('Boom')
+      const nextHandler: DelegationHandler = vi.fn()
+      errorCtrl.delegate('keydown.enter', 'input', () => {
+        throw error
+      })
+      errorCtrl.delegate('keydown', 'form', nextHandler)
+
+      const input = errorCtrl.element.querySelector('input') as HTMLInputElement
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }))
+
+      expect(application.handleError).toHaveBeenCalledWith(error, 'Error invoking delegation "keydown.enter->input"', {
+        identifier: 'table',
+        controller: errorCtrl,
+        element: errorCtrl.element,
+        eventType: 'keydown.enter',
+        selector: 'input',
+        event: expect.any(KeyboardEvent),
+        target: input,
+      })
+      expect(nextHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it('uses the onError fallback without application', () => {
+      const onError = vi.fn()
+      const errorCtrl = new TestController()
+      useDelegation(errorCtrl, { onError })
+
+      const error = new Error('Boom')
+      errorCtrl.delegate('click', '.btn', () => {
+        throw error
+      })
+
+      const btn = errorCtrl.element.querySelector('.btn') as HTMLElement
+      btn.click()
+
+      expect(onError).toHaveBeenCalledWith(
+        error,
+        'Error invoking delegation "click->.btn"',
+        expect.objectContaining({ eventType: 'click', selector: '.btn', target: btn }),
+      )
+    })
+
+    it('rethrows handler errors without application nor fallback', () => {
+      const error = new Error('Boom')
+      ctrl.delegate('click', '.btn', () => {
+        throw error
+      })
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      const event = new MouseEvent('click', { bubbles: true })
+
+      // Call the root listener directly, as DOM dispatch reports listener errors itself
+      const [delegation] = ctrl.delegatedEvents
+      Object.defineProperty(event, 'target', { value: btn })
+      expect(() => delegation.listener(event)).toThrow(error)
+    })
+
+    it('runs the next delegations before rethrowing a handler error', () => {
+      const error = new Error('Boom')
+      const nextHandler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', () => {
+        throw error
+      })
+      ctrl.delegate('click', '[data-action]', nextHandler)
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      const event = new MouseEvent('click', { bubbles: true })
+
+      const [delegation] = ctrl.delegatedEvents
+      Object.defineProperty(event, 'target', { value: btn })
+      expect(() => delegation.listener(event)).toThrow(error)
+      expect(nextHandler).toHaveBeenCalledWith(event, btn)
+    })
+  })
+
+  describe('other roots', () => {
+    it('delegates from the document to elements outside the controller', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.dialog-close', handler, { root: document })
+
+      const outside = document.createElement('button')
+      outside.className = 'dialog-close'
+      document.body.appendChild(outside)
+      outside.click()
+
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), outside)
+    })
+
+    it('delegates from the window', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', handler, { root: window })
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.click()
+
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), btn)
+    })
+
+    it('only matches elements inside another element root', () => {
+      const handler: DelegationHandler = vi.fn()
+      const sidebar = document.createElement('aside')
+      sidebar.innerHTML = '<button class="btn">Sidebar</button>'
+      document.body.appendChild(sidebar)
+
+      ctrl.delegate('click', '.btn', handler, { root: sidebar })
+      ;(ctrl.element.querySelector('.btn') as HTMLElement).click()
+      expect(handler).not.toHaveBeenCalled()
+
+      const btn = sidebar.querySelector('.btn') as HTMLElement
+      btn.click()
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), btn)
+    })
+
+    it('keeps delegations on different roots apart', () => {
+      const elementHandler: DelegationHandler = vi.fn()
+      const documentHandler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', elementHandler)
+      ctrl.delegate('click', '.btn', documentHandler, { root: document })
+
+      expect(ctrl.delegatedEvents.size).toBe(2)
+
+      ctrl.undelegate('click', '.btn', { root: document })
+      ;(ctrl.element.querySelector('.btn') as HTMLElement).click()
+
+      expect(elementHandler).toHaveBeenCalledTimes(1)
+      expect(documentHandler).not.toHaveBeenCalled()
+    })
+
+    it('removes root listeners on disconnect and undelegateAll', () => {
+      const removeSpy = vi.spyOn(document, 'removeEventListener')
+      const windowRemoveSpy = vi.spyOn(window, 'removeEventListener')
+
+      ctrl.delegate('click', '.btn', vi.fn(), { root: document })
+      ctrl.disconnect()
+      expect(removeSpy).toHaveBeenCalledWith('click', expect.any(Function), { capture: false })
+
+      ctrl.delegate('keydown', 'input', vi.fn(), { root: window })
+      ctrl.undelegateAll()
+      expect(windowRemoveSpy).toHaveBeenCalledWith('keydown', expect.any(Function), { capture: false })
+
+      removeSpy.mockRestore()
+      windowRemoveSpy.mockRestore()
+    })
+
+    it('scopes document delegations to the controller element and its nested instances', () => {
+      const handler: DelegationHandler = vi.fn()
+      Object.assign(ctrl, { identifier: 'list' })
+      ctrl.element.setAttribute('data-controller', 'list')
+      const nested = ctrl.element.querySelector('.nested') as HTMLElement
+      nested.setAttribute('data-controller', 'list')
+
+      ctrl.delegate('click', '.clickable', handler, { root: document, scoped: true })
+      ;(nested.querySelector('.clickable') as HTMLElement).click()
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('outside delegations', () => {
+    let menu: HTMLElement
+
+    beforeEach(() => {
+      menu = document.createElement('ul')
+      menu.className = 'menu'
+      menu.innerHTML = '<li><a href="#">Item</a></li>'
+      ctrl.element.appendChild(menu)
+    })
+
+    it('calls the handler with the matching element when the event happens outside of it', async () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegateOutside('click', '.menu', handler)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+
+      document.body.click()
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), menu)
+
+      // Outside the menu but inside the controller element
+      ;(ctrl.element.querySelector('.btn') as HTMLElement).click()
+      expect(handler).toHaveBeenCalledTimes(2)
+    })
+
+    it('does not call the handler for events inside the matching element', async () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegateOutside('click', '.menu', handler)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+
+      ;(menu.querySelector('a') as HTMLElement).click()
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('does not call the handler without matching element', async () => {
+      const handler: DelegationHandler = vi.fn()
+      menu.remove()
+      ctrl.delegateOutside('click', '.menu', handler)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+
+      document.body.click()
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('ignores the event during which the delegation was added', async () => {
+      const handler: DelegationHandler = vi.fn()
+      const toggle = ctrl.element.querySelector('.btn') as HTMLElement
+
+      // Opening the menu starts listening for clicks outside of it
+      toggle.addEventListener('click', () => ctrl.delegateOutside('click', '.menu', handler))
+      toggle.click()
+      expect(handler).not.toHaveBeenCalled()
+
+      await new Promise((resolve) => setTimeout(resolve, 1))
+      document.body.click()
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it('coexists with inside delegations for the same selector', async () => {
+      const insideHandler: DelegationHandler = vi.fn()
+      const outsideHandler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.menu', insideHandler)
+      ctrl.delegateOutside('click', '.menu', outsideHandler)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+
+      expect(ctrl.delegatedEvents.size).toBe(2)
+
+      ctrl.undelegateOutside('click', '.menu')
+      document.body.click()
+      ;(menu.querySelector('a') as HTMLElement).click()
+
+      expect(ctrl.delegatedEvents.size).toBe(1)
+      expect(outsideHandler).not.toHaveBeenCalled()
+      expect(insideHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it('removes the document listener on disconnect', () => {
+      const removeSpy = vi.spyOn(document, 'removeEventListener')
+
+      ctrl.delegateOutside('click', '.menu', vi.fn())
+      ctrl.disconnect()
+
+      expect(removeSpy).toHaveBeenCalledWith('click', expect.any(Function), { capture: false })
+      removeSpy.mockRestore()
+    })
+  })
+
+  describe('pausing', () => {
+    it('pauses and resumes every delegation', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', handler)
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+
+      ctrl.pauseDelegation()
+      btn.click()
+      expect(handler).not.toHaveBeenCalled()
+      expect(ctrl.delegatedEvents.size).toBe(1)
+      expect(ctrl.inspectDelegations()[0].paused).toBe(true)
+
+      ctrl.resumeDelegation()
+      btn.click()
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(ctrl.inspectDelegations()[0].paused).toBe(false)
+    })
+
+    it('pauses the next delegations of the current event when a handler pauses them', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.nested', () => ctrl.pauseDelegation({ selector: '.clickable' }))
+      ctrl.delegate('click', '.clickable', handler)
+
+      ;(ctrl.element.querySelector('.clickable') as HTMLElement).click()
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('pauses delegations by event type and selector', () => {
+      const clickHandler: DelegationHandler = vi.fn()
+      const enterHandler: DelegationHandler = vi.fn()
+      const escapeHandler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', clickHandler)
+      ctrl.delegate('keydown.enter', 'input', enterHandler)
+      ctrl.delegate('keydown.esc', 'input', escapeHandler)
+
+      const input = ctrl.element.querySelector('input') as HTMLInputElement
+      const press = (key: string) => input.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }))
+
+      ctrl.pauseDelegation({ eventType: 'keydown' })
+      ;(ctrl.element.querySelector('.btn') as HTMLElement).click()
+      press('Enter')
+      press('Escape')
+      expect(clickHandler).toHaveBeenCalledTimes(1)
+      expect(enterHandler).not.toHaveBeenCalled()
+      expect(escapeHandler).not.toHaveBeenCalled()
+
+      ctrl.resumeDelegation({ eventType: 'keydown.esc' })
+      press('Enter')
+      press('Escape')
+      expect(enterHandler).not.toHaveBeenCalled()
+      expect(escapeHandler).toHaveBeenCalledTimes(1)
+
+      ctrl.pauseDelegation({ selector: '.btn' })
+      ;(ctrl.element.querySelector('.btn') as HTMLElement).click()
+      expect(clickHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it('drops pending scheduled calls when pausing', () => {
+      vi.useFakeTimers()
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('input', 'input', handler, { debounce: 100 })
+
+      const input = ctrl.element.querySelector('input') as HTMLInputElement
+      input.dispatchEvent(new Event('input', { bubbles: true }))
+      ctrl.pauseDelegation()
+      vi.advanceTimersByTime(100)
+
+      expect(handler).not.toHaveBeenCalled()
+      vi.useRealTimers()
+    })
+
+    it('removes paused delegations on disconnect', () => {
+      const removeSpy = vi.spyOn(ctrl.element, 'removeEventListener')
+      ctrl.delegate('click', '.btn', vi.fn())
+      ctrl.pauseDelegation()
+
+      ctrl.disconnect()
+
+      expect(ctrl.delegatedEvents.size).toBe(0)
+      expect(removeSpy).toHaveBeenCalledWith('click', expect.any(Function), { capture: false })
+    })
+
+    it('skips the handler when the enabled predicate returns false', () => {
+      const handler: DelegationHandler = vi.fn()
+      let busy = true
+      const enabled = vi.fn(() => !busy)
+      ctrl.delegate('click', '.btn', handler, { enabled })
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.click()
+      expect(handler).not.toHaveBeenCalled()
+      expect(enabled).toHaveBeenCalledWith(expect.any(MouseEvent), btn)
+      expect(enabled.mock.contexts[0]).toBe(ctrl)
+
+      busy = false
+      btn.click()
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('re-initialization and reconnect', () => {
+    it('can be called again without stacking disconnect hooks', () => {
+      const disconnect = vi.spyOn(TestController.prototype, 'disconnect')
+      const setupCtrl = new TestController()
+      useDelegation(setupCtrl)
+      const { delegatedEvents } = setupCtrl
+
+      setupCtrl.delegate('click', '.btn', vi.fn())
+      useDelegation(setupCtrl)
+
+      expect(setupCtrl.delegatedEvents).toBe(delegatedEvents)
+      expect(setupCtrl.delegatedEvents.size).toBe(1)
+
+      setupCtrl.disconnect()
+      expect(disconnect).toHaveBeenCalledTimes(1)
+      expect(setupCtrl.delegatedEvents.size).toBe(0)
+      disconnect.mockRestore()
+    })
+
+    it('does not orphan listeners when set up from connect()', () => {
+      const handler = vi.fn()
+
+      class ConnectingController extends TestController {
+        connect() {
+          useDelegation(this)
+          this.delegate('click', '.btn', handler)
+        }
+      }
+
+      const connecting = new ConnectingController()
+      document.body.appendChild(connecting.element)
+      const btn = connecting.element.querySelector('.btn') as HTMLElement
+
+      connecting.connect()
+      connecting.disconnect()
+      connecting.connect()
+      btn.click()
+      expect(handler).toHaveBeenCalledTimes(1)
+
+      connecting.disconnect()
+      btn.click()
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it('updates the options when called again', () => {
+      const onError = vi.fn()
+      const setupCtrl = new TestController()
+      useDelegation(setupCtrl)
+      useDelegation(setupCtrl, { onError })
+
+      setupCtrl.delegate('click', '.btn', () => {
+        throw new Error('Boom')
+      })
+      ;(setupCtrl.element.querySelector('.btn') as HTMLElement).click()
+
+      expect(onError).toHaveBeenCalledTimes(1)
+    })
+
+    it('registers the delegations again on reconnect with the reconnect option', () => {
+      const handler: DelegationHandler = vi.fn()
+      const keyHandler: DelegationHandler = vi.fn()
+      const reconnecting = new TestController()
+      useDelegation(reconnecting, { reconnect: true })
+      document.body.appendChild(reconnecting.element)
+
+      reconnecting.delegate('click', '.btn', handler)
+      reconnecting.delegate('keydown', 'input', keyHandler)
+      reconnecting.pauseDelegation({ eventType: 'keydown' })
+
+      const btn = reconnecting.element.querySelector('.btn') as HTMLElement
+      btn.click()
+
+      reconnecting.disconnect()
+      btn.click()
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(reconnecting.delegatedEvents.size).toBe(0)
+
+      reconnecting.connect()
+      btn.click()
+      expect(handler).toHaveBeenCalledTimes(2)
+      expect(reconnecting.inspectDelegations()).toEqual([
+        expect.objectContaining({ selector: '.btn', hits: 2, paused: false }),
+        expect.objectContaining({ selector: 'input', paused: true }),
+      ])
+    })
+
+    it('removes the delegations registered again when their signal is aborted', () => {
+      const abortController = new AbortController()
+      const reconnecting = new TestController()
+      useDelegation(reconnecting, { reconnect: true })
+      reconnecting.delegate('click', '.btn', vi.fn(), { signal: abortController.signal })
+
+      reconnecting.disconnect()
+      reconnecting.connect()
+      abortController.abort()
+
+      expect(reconnecting.delegatedEvents.size).toBe(0)
+    })
+
+    it('does not register the delegations again without the reconnect option', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', handler)
+
+      ctrl.disconnect()
+      ctrl.connect()
+      ;(ctrl.element.querySelector('.btn') as HTMLElement).click()
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('selectors', () => {
+    it('rejects invalid selectors when delegating', () => {
+      Object.assign(ctrl, { identifier: 'todo' })
+
+      expect(() => ctrl.delegate('click', '##save', vi.fn())).toThrow(
+        'Invalid selector "##save" for "click" delegation on todo controller',
+      )
+      expect(() => ctrl.delegateOutside('keydown.esc', '##menu', vi.fn())).toThrow(
+        'Invalid selector "##menu" for "keydown.esc" delegation on todo controller',
+      )
+      expect(ctrl.delegatedEvents.size).toBe(0)
+    })
+
+    it.each([
+      ['.secondary', 'cancel'],
+      ['#cancel-btn', 'cancel'],
+      ['button', 'save'],
+      ['[data-action]', 'save'],
+      ['[data-action="cancel"]', 'cancel'],
+      ["[data-action='cancel']", 'cancel'],
+      ['[data-action=cancel]', 'cancel'],
+    ])('matches the simple selector %s without the selector engine', (selector, action) => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.element.querySelector('.secondary')!.id = 'cancel-btn'
+      ctrl.delegate('click', selector, handler)
+
+      const matches = vi.spyOn(Element.prototype, 'matches')
+      const span = document.createElement('span')
+      const btn = ctrl.element.querySelector(`[data-action="${action}"]`) as HTMLElement
+      btn.appendChild(span)
+      span.click()
+      matches.mockRestore()
+
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), btn)
+      expect(matches).not.toHaveBeenCalled()
+    })
+
+    it('matches other selectors with the selector engine', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', 'button.btn:not(.secondary)', handler)
+
+      const btns = ctrl.element.querySelectorAll('.btn')
+      ;(btns[0] as HTMLElement).click()
+      ;(btns[1] as HTMLElement).click()
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), btns[0])
+    })
+  })
+
+  describe('matching all ancestors', () => {
+    let outer: HTMLElement
+    let inner: HTMLElement
+    let button: HTMLElement
+
+    beforeEach(() => {
+      ctrl.element.insertAdjacentHTML(
+        'beforeend',
+        '<div class="card" id="outer"><div class="card" id="inner"><button class="card-action">Go</button></div></div>',
+      )
+      outer = ctrl.element.querySelector('#outer') as HTMLElement
+      inner = ctrl.element.querySelector('#inner') as HTMLElement
+      button = ctrl.element.querySelector('.card-action') as HTMLElement
+    })
+
+    it('only calls the handler for the nearest matching element by default', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.card', handler)
+
+      button.click()
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), inner)
+    })
+
+    it('calls the handler for every matching ancestor, innermost first', () => {
+      const targets: Element[] = []
+      ctrl.delegate('click', '.card', (_event, target) => targets.push(target), { match: 'all' })
+
+      button.click()
+
+      expect(targets).toEqual([inner, outer])
+    })
+
+    it('stops at the controller element', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.element.classList.add('card')
+      document.body.classList.add('card')
+      ctrl.delegate('click', '.card', handler, { match: 'all' })
+
+      button.click()
+
+      expect(handler.mock.calls.map(([, target]) => target)).toEqual([inner, outer, ctrl.element])
+      document.body.classList.remove('card')
+    })
+
+    it('calls the handler for every matching ancestor when an earlier delegation stopped propagation', () => {
+      const targets: Element[] = []
+      ctrl.delegate('click', '.card-action', (event) => event.stopPropagation())
+      ctrl.delegate('click', '.card', (_event, target) => targets.push(target), { match: 'all' })
+
+      button.click()
+
+      expect(targets).toEqual([inner, outer])
+    })
+
+    it('skips the outer matching elements when the handler stops propagation', () => {
+      const targets: Element[] = []
+      ctrl.delegate(
+        'click',
+        '.card',
+        (event, target) => {
+          targets.push(target)
+          event.stopPropagation()
+        },
+        { match: 'all' },
+      )
+
+      button.click()
+
+      expect(targets).toEqual([inner])
+    })
+
+    it('ignores matching elements owned by nested instances when scoped', () => {
+      const handler: DelegationHandler = vi.fn()
+      Object.assign(ctrl, { identifier: 'cards' })
+      inner.setAttribute('data-controller', 'cards')
+      ctrl.delegate('click', '.card', handler, { match: 'all', scoped: true })
+
+      button.click()
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), outer)
+    })
+  })
+
+  describe('gestures', () => {
+    let btn: HTMLElement
+
+    const pointer = (target: EventTarget, type: string, init: PointerEventInit = {}) =>
+      target.dispatchEvent(new PointerEvent(type, { bubbles: true, pointerId: 1, ...init }))
+
+    beforeEach(() => {
+      btn = ctrl.element.querySelector('.btn') as HTMLElement
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('recognizes taps on matching elements', () => {
+      const handler = vi.fn()
+      ctrl.delegate('tap', '.btn', handler)
+
+      pointer(btn, 'pointerdown', { clientX: 10, clientY: 10 })
+      pointer(btn, 'pointerup', { clientX: 12, clientY: 11 })
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      const [event, target] = handler.mock.calls[0] as [GestureEvent, Element]
+      expect(event.type).toBe('tap')
+      expect(target).toBe(btn)
+      expect(event.detail).toMatchObject({ deltaX: 2, deltaY: 1, pointerEvent: expect.any(PointerEvent) })
+    })
+
+    it('does not recognize taps when the pointer moves away', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('tap', '.btn', handler)
+
+      pointer(btn, 'pointerdown', { clientX: 10 })
+      pointer(document.body, 'pointermove', { clientX: 40 })
+      pointer(document.body, 'pointerup', { clientX: 10 })
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('recognizes double taps', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('doubletap', '.btn', handler)
+
+      pointer(btn, 'pointerdown')
+      pointer(btn, 'pointerup')
+      expect(handler).not.toHaveBeenCalled()
+
+      pointer(btn, 'pointerdown')
+      pointer(btn, 'pointerup')
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ type: 'doubletap' }), btn)
+    })
+
+    it('recognizes long presses after the configured delay', () => {
+      vi.useFakeTimers()
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('longpress', '.btn', handler, { gesture: { longPressDelay: 800 } })
+
+      pointer(btn, 'pointerdown')
+      vi.advanceTimersByTime(500)
+      expect(handler).not.toHaveBeenCalled()
+
+      vi.advanceTimersByTime(300)
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ type: 'longpress' }), btn)
+
+      pointer(btn, 'pointerdown')
+      pointer(btn, 'pointerup')
+      vi.advanceTimersByTime(800)
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it('recognizes swipes in their direction only', () => {
+      const left: DelegationHandler = vi.fn()
+      const right: DelegationHandler = vi.fn()
+      ctrl.delegate('swipeleft', '.btn', left).delegate('swiperight', '.btn', right)
+
+      pointer(btn, 'pointerdown', { clientX: 200, clientY: 50 })
+      pointer(document.body, 'pointermove', { clientX: 150, clientY: 55 })
+      pointer(document.body, 'pointerup', { clientX: 100, clientY: 60 })
+
+      expect(left).toHaveBeenCalledWith(expect.objectContaining({ type: 'swipeleft' }), btn)
+      expect(right).not.toHaveBeenCalled()
+    })
+
+    it('does not recognize swipes shorter than the configured distance', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('swiperight', '.btn', handler, { gesture: { swipeDistance: 120 } })
+
+      pointer(btn, 'pointerdown', { clientX: 0 })
+      pointer(document.body, 'pointerup', { clientX: 100 })
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('ignores other pointers', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('tap', '.btn', handler)
+
+      pointer(btn, 'pointerdown', { pointerId: 1 })
+      pointer(btn, 'pointerup', { pointerId: 2 })
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('stops following the pointer on undelegate and undelegateAll', () => {
+      vi.useFakeTimers()
+      const removeSpy = vi.spyOn(document, 'removeEventListener')
+      const handler: DelegationHandler = vi.fn()
+
+      ctrl.delegate('longpress', '.btn', handler)
+      pointer(btn, 'pointerdown')
+      ctrl.undelegate('longpress', '.btn')
+      vi.advanceTimersByTime(500)
+
+      ctrl.delegate('longpress', '.btn', handler)
+      pointer(btn, 'pointerdown')
+      ctrl.undelegateAll()
+      vi.advanceTimersByTime(500)
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(removeSpy).toHaveBeenCalledWith('pointerup', expect.any(Function), { capture: true })
+      removeSpy.mockRestore()
+    })
+  })
+
+  describe('delegateDispatch', () => {
+    let btn: HTMLElement
+
+    beforeEach(() => {
+      Object.assign(ctrl, { identifier: 'todo' })
+      btn = ctrl.element.querySelector('[data-action="save"]') as HTMLElement
+      btn.dataset.id = '42'
+    })
+
+    it('dispatches a prefixed custom event from the matched target', () => {
+      const listener = vi.fn()
+      ctrl.element.addEventListener('todo:save', listener)
+
+      ctrl.delegateDispatch('click', '.btn', 'save', { detail: (target) => ({ id: target.dataset.id }) })
+      btn.click()
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      const [event] = listener.mock.calls[0] as [CustomEvent]
+      expect(event.target).toBe(btn)
+      expect(event.detail).toEqual({ id: '42' })
+      expect(event.bubbles).toBe(true)
+      expect(event.cancelable).toBe(true)
+    })
+
+    it('accepts a static detail, another prefix and event options', () => {
+      const listener = vi.fn()
+      document.addEventListener('todos.save', listener)
+
+      ctrl.delegateDispatch('click', '.btn', 'todos.save', { detail: { all: true }, prefix: '', bubbles: false })
+      btn.click()
+      document.removeEventListener('todos.save', listener)
+
+      expect(listener).not.toHaveBeenCalled()
+
+      const targetListener = vi.fn()
+      btn.addEventListener('todos.save', targetListener)
+      btn.click()
+      expect(targetListener).toHaveBeenCalledWith(expect.objectContaining({ detail: { all: true } }))
+    })
+
+    it('prevents the default of the source event', () => {
+      ctrl.delegateDispatch('click', '.btn', 'save', { preventDefault: true })
+
+      const click = new MouseEvent('click', { bubbles: true, cancelable: true })
+      btn.dispatchEvent(click)
+
+      expect(click.defaultPrevented).toBe(true)
+    })
+
+    it('propagates the cancellation of the dispatched event to the source event', () => {
+      ctrl.delegateDispatch('click', '.btn', 'save', { propagateCancel: true })
+      btn.addEventListener('todo:save', (event) => event.preventDefault())
+
+      const click = new MouseEvent('click', { bubbles: true, cancelable: true })
+      btn.dispatchEvent(click)
+      expect(click.defaultPrevented).toBe(true)
+
+      ctrl.delegateDispatch('click', '.btn', 'save')
+      const otherClick = new MouseEvent('click', { bubbles: true, cancelable: true })
+      btn.dispatchEvent(otherClick)
+      expect(otherClick.defaultPrevented).toBe(false)
+    })
+
+    it('registers a regular delegation', () => {
+      ctrl.delegateDispatch('click', '.btn', 'save', { once: true, detail: () => ({}) })
+
+      expect(ctrl.inspectDelegations()).toEqual([
+        expect.objectContaining({
+          eventType: 'click',
+          selector: '.btn',
+          options: { once: true },
+          handler: 'redispatch',
+        }),
+      ])
+
+      ctrl.undelegate('click', '.btn')
+      expect(ctrl.delegatedEvents.size).toBe(0)
+    })
+  })
+
+  describe('params', () => {
+    it('sets the params of the matched target on the event, with Stimulus typecasting', () => {
+      let params: object | undefined
+      const handler: DelegationHandler = vi.fn((event) => (params = event.params))
+      Object.assign(ctrl, { identifier: 'table' })
+      const row = ctrl.element.querySelector('.nested') as HTMLElement
+      row.setAttribute('data-table-id-param', '42')
+      row.setAttribute('data-table-selected-param', 'true')
+      row.setAttribute('data-table-filter-param', '{"status":"done"}')
+      row.setAttribute('data-table-row-label-param', 'First row')
+      row.setAttribute('data-other-id-param', '7')
+      ;(row.querySelector('.clickable') as HTMLElement).setAttribute('data-table-id-param', '1')
+
+      ctrl.delegate('click', '.nested', handler)
+      ;(row.querySelector('.clickable') as HTMLElement).click()
+
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), row)
+      expect(params).toEqual({ id: 42, selected: true, filter: { status: 'done' }, rowLabel: 'First row' })
+    })
+
+    it('sets the params of each matched target', () => {
+      const params: object[] = []
+      Object.assign(ctrl, { identifier: 'table' })
+      const outer = ctrl.element.querySelector('.nested') as HTMLElement
+      const inner = ctrl.element.querySelector('.clickable') as HTMLElement
+      outer.classList.add('level')
+      outer.setAttribute('data-table-depth-param', '0')
+      inner.classList.add('level')
+      inner.setAttribute('data-table-depth-param', '1')
+
+      ctrl.delegate('click', '.level', (event) => params.push(event.params), { match: 'all' })
+      inner.click()
+
+      expect(params).toEqual([{ depth: 1 }, { depth: 0 }])
+    })
+
+    it('sets empty params without identifier', () => {
+      let params: object | undefined
+      ctrl.delegate('click', '.btn', (event) => (params = event.params))
+
+      ;(ctrl.element.querySelector('.btn') as HTMLElement).click()
+
+      expect(params).toEqual({})
+    })
+  })
+
+  describe('rebinding', () => {
+    let newElement: HTMLElement
+
+    beforeEach(() => {
+      newElement = ctrl.element.cloneNode(true) as HTMLElement
+      document.body.appendChild(newElement)
+    })
+
+    it('moves the delegations to a new element', () => {
+      const handler: DelegationHandler = vi.fn()
+      const documentHandler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', handler)
+      ctrl.delegate('click', '.dialog-close', documentHandler, { root: document })
+
+      expect(ctrl.rebindDelegations(newElement)).toBe(ctrl)
+      ;(ctrl.element.querySelector('.btn') as HTMLElement).click()
+      expect(handler).not.toHaveBeenCalled()
+
+      const btn = newElement.querySelector('.btn') as HTMLElement
+      btn.click()
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), btn)
+
+      const close = document.createElement('button')
+      close.className = 'dialog-close'
+      document.body.appendChild(close)
+      close.click()
+      expect(documentHandler).toHaveBeenCalledTimes(1)
+      expect(ctrl.delegatedEvents.size).toBe(2)
+    })
+
+    it('keeps the state of the delegations', () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegate('click', '.btn', handler)
+      ctrl.pauseDelegation()
+
+      ctrl.rebindDelegations(newElement)
+
+      expect(ctrl.inspectDelegations()).toEqual([expect.objectContaining({ selector: '.btn', paused: true })])
+    })
+
+    it('leaves the delegations on other roots untouched', () => {
+      vi.useFakeTimers()
+      const handler: DelegationHandler = vi.fn()
+      const removeSpy = vi.spyOn(document, 'removeEventListener')
+      ctrl.delegate('click', '.btn', handler, { root: document, debounce: 50 })
+
+      ;(ctrl.element.querySelector('.btn') as HTMLElement).click()
+      ctrl.rebindDelegations(newElement)
+      vi.advanceTimersByTime(50)
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(removeSpy).not.toHaveBeenCalled()
+      vi.useRealTimers()
+    })
+
+    it('matches outside delegations against the new element', async () => {
+      const handler: DelegationHandler = vi.fn()
+      ctrl.delegateOutside('click', '.nested', handler)
+      ctrl.rebindDelegations(newElement)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+
+      ;(newElement.querySelector('.clickable') as HTMLElement).click()
+      expect(handler).not.toHaveBeenCalled()
+
+      ;(ctrl.element.querySelector('.clickable') as HTMLElement).click()
+      expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), newElement.querySelector('.nested'))
+    })
+
+    it('moves the delegations of a Stimulus controller with an element taken out of it', async () => {
+      const select = vi.fn()
+
+      class MenuController extends withDelegation(Controller) {
+        static targets = ['menu']
+        declare readonly menuTarget: HTMLElement
+        menu!: HTMLElement
+
+        connect() {
+          this.menu = this.menuTarget
+          document.body.append(this.menu)
+          this.delegate('click', '.menu-item', select).rebindDelegations(this.menu)
+        }
+
+        disconnect() {
+          this.element.append(this.menu)
+        }
+      }
+
+      const container = document.createElement('div')
+      container.innerHTML = `
+        <div data-controller="menu">
+          <ul data-menu-target="menu"><li class="menu-item">Open</li></ul>
+        </div>
+      `
+      document.body.appendChild(container)
+      const application = Application.start(container)
+      application.register('menu', MenuController)
+      await new Promise((resolve) => setTimeout(resolve))
+
+      const item = document.querySelector('.menu-item') as HTMLElement
+      expect(item.closest('[data-controller]')).toBeNull()
+      item.click()
+      expect(select).toHaveBeenCalledTimes(1)
+
+      container.querySelector('[data-controller]')!.remove()
+      await new Promise((resolve) => setTimeout(resolve))
+      item.click()
+      expect(select).toHaveBeenCalledTimes(1)
+
+      application.stop()
+      container.remove()
+    })
+  })
+
+  describe('integration patterns', () => {
+    it('works in typical Stimulus controller disconnect pattern', () => {
+      const handler: DelegationHandler = vi.fn()
+
+      // Simulate controller connect
+      ctrl.delegate('click', '.btn', handler)
+
+      const btn = ctrl.element.querySelector('.btn') as HTMLElement
+      btn.click()
+      expect(handler).toHaveBeenCalledTimes(1)
+
+      // Simulate controller disconnect
+      ctrl.disconnect()
+
+      btn.click()
+      expect(handler).toHaveBeenCalledTimes(1) // No additional calls
+    })
+
+    it('calls the original disconnect method when patched', () => {
+      const newCtrl = new TestController()
+      const disconnectSpy = vi.spyOn(newCtrl, 'disconnect')
+      useDelegation(newCtrl)
+
+      newCtrl.disconnect()
+
+      expect(disconnectSpy).toHaveBeenCalledTimes(1)
+    })
+
+    it('supports method chaining for multiple delegations', () => {
+      const clickHandler: DelegationHandler = vi.fn()
+      const mouseoverHandler: DelegationHandler = vi.fn()
+
+      const result = ctrl
+        .delegate('click', '.btn', clickHandler)
+        .delegate('mouseover', '.btn', mouseoverHandler)
+
+      expect(result).toBe(ctrl)
+      expect(ctrl.delegatedEvents?.size).toBe(2)
+    })
+  })
+})
+
+describe('createDelegator', () => {
+  let element: HTMLElement
+
+  beforeEach(() => {
+    element = document.createElement('section')
+    element.innerHTML = '<button class="btn" data-panel-id-param="7">Open</button><input type="text" />'
+    document.body.appendChild(element)
+  })
+
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('delegates events on a plain element, with the element as this', () => {
+    const handler = vi.fn()
+    const delegator = createDelegator(element).on('click', '.btn', handler)
+
+    const btn = element.querySelector('.btn') as HTMLElement
+    btn.click()
+
+    expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), btn)
+    expect(handler.mock.contexts[0]).toBe(element)
+    expect(delegator.delegations.size).toBe(1)
+  })
+
+  it('calls handlers with the given context and identifier', () => {
+    const context = {}
+    let params: object | undefined
+    const handler: DelegationHandler = vi.fn((event) => (params = event.params))
+    createDelegator(element, { context, identifier: 'panel' }).on('click', '.btn', handler)
+
+    ;(element.querySelector('.btn') as HTMLElement).click()
+
+    expect(vi.mocked(handler).mock.contexts[0]).toBe(context)
+    expect(params).toEqual({ id: 7 })
+  })
+
+  it('shares the registry semantics of useDelegation', () => {
+    const first: DelegationHandler = vi.fn()
+    const second: DelegationHandler = vi.fn()
+    const delegator = createDelegator(element)
+
+    delegator.on('click', '.btn', first).on('click', '.btn', second)
+    expect(delegator.delegations.size).toBe(1)
+
+    delegator.on('click', '.btn', first, { additive: true })
+    ;(element.querySelector('.btn') as HTMLElement).click()
+    expect(first).toHaveBeenCalledTimes(1)
+    expect(second).toHaveBeenCalledTimes(1)
+
+    delegator.off('click', '.btn', second)
+    expect(delegator.inspect()).toEqual([expect.objectContaining({ selector: '.btn', hits: 1 })])
+  })
+
+  it('removes every listener on destroy', () => {
+    const handler: DelegationHandler = vi.fn()
+    const removeSpy = vi.spyOn(element, 'removeEventListener')
+    const delegator = createDelegator(element).on('click', '.btn', handler).on('input', 'input', handler)
+
+    delegator.destroy()
+    ;(element.querySelector('.btn') as HTMLElement).click()
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(delegator.delegations.size).toBe(0)
+    expect(removeSpy).toHaveBeenCalledTimes(2)
+  })
+
+  it('detaches and attaches delegations with their state', () => {
+    const handler: DelegationHandler = vi.fn()
+    const delegator = createDelegator(element).on('click', '.btn', handler)
+    const btn = element.querySelector('.btn') as HTMLElement
+    btn.click()
+
+    const detached = delegator.detach()
+    btn.click()
+    expect(handler).toHaveBeenCalledTimes(1)
+
+    delegator.attach(detached)
+    btn.click()
+    expect(handler).toHaveBeenCalledTimes(2)
+    expect(delegator.inspect()[0].hits).toBe(2)
+  })
+
+  it('reports handler errors to onError, and rethrows them otherwise', () => {
+    const onError = vi.fn()
+    const error = new Error('Boom')
+    const btn = element.querySelector('.btn') as HTMLElement
+    const throwing = () => {
+      throw error
+    }
+    createDelegator(element, { onError }).on('click', '.btn', throwing)
+
+    btn.click()
+
+    expect(onError).toHaveBeenCalledWith(error, 'Error invoking delegation "click->.btn"', {
+      element,
+      eventType: 'click',
+      selector: '.btn',
+      event: expect.any(MouseEvent),
+      target: btn,
+    })
+
+    const [delegation] = createDelegator(element).on('keydown', 'input', throwing).delegations
+    const event = new KeyboardEvent('keydown', { bubbles: true })
+    Object.defineProperty(event, 'target', { value: element.querySelector('input') })
+    expect(() => delegation.listener(event)).toThrow(error)
+  })
+
+  it('moves the delegations to another element', () => {
+    const handler: DelegationHandler = vi.fn()
+    const other = element.cloneNode(true) as HTMLElement
+    document.body.appendChild(other)
+    const delegator = createDelegator(element).on('click', '.btn', handler)
+
+    delegator.rebind(other)
+    ;(element.querySelector('.btn') as HTMLElement).click()
+    ;(other.querySelector('.btn') as HTMLElement).click()
+
+    expect(delegator.element).toBe(other)
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler).toHaveBeenCalledWith(expect.any(MouseEvent), other.querySelector('.btn'))
+  })
+
+  it('rejects invalid selectors without naming a controller', () => {
+    expect(() => createDelegator(element).on('click', '##open', vi.fn())).toThrow(
+      'Invalid selector "##open" for "click" delegation',
+    )
   })
 })